@@ -1,8 +1,44 @@
-import { Plugin, MarkdownView, TFile } from "obsidian";
-import { LinkIconSettingTab, LinkIconSettings, DEFAULT_SETTINGS, FolderIconMapping } from "./src/settings";
-import * as LucideIcons from "lucide";
-import { WidgetType, Decoration, DecorationSet, ViewUpdate, ViewPlugin, EditorView } from "@codemirror/view";
-import { StateField, StateEffect } from "@codemirror/state";
+import { Plugin, MarkdownView, TFile, TFolder, TAbstractFile, Notice, getAllTags, editorInfoField } from "obsidian";
+import { LinkIconSettingTab, LinkIconSettings, DEFAULT_SETTINGS, FolderIconMapping, IconStyle, IconSource } from "./src/settings";
+import { normalizeTag } from "./src/tag-input-modal";
+import { compilePattern } from "./src/mapping-patterns";
+import { matchDomainRule } from "./src/external-links";
+import { createLinkRegex, parseLinkMatch, findLinkAt, decodeLinkPath, splitSubpath, isBlockSubpath } from "./src/link-matching";
+import { IconExplanation, explainInternalLink, explainExternalLink } from "./src/icon-explainer";
+import { IconExplanationModal } from "./src/icon-explanation-modal";
+import { MappingTable } from "./src/settings-transfer";
+import { WorkspaceIcons } from "./src/workspace-icons";
+import { isInNonLinkSyntax, changesSyntaxContext } from "./src/syntax-context";
+import { CanvasIcons } from "./src/canvas-icons";
+import { getFileExtensions, normalizeExtension } from "./src/extension-input-modal";
+import { renameFolderKeys, findMappingsInFolder } from "./src/mapping-sync";
+import { orderedEntries, renameInOrder, folderRuleMatches } from "./src/rule-priority";
+import { customIcons, isInFolder } from "./src/custom-icons";
+import { renderIcon, applyIconStyle } from "./src/icon-renderer";
+import { WidgetType, Decoration, DecorationSet, ViewUpdate, ViewPlugin, EditorView, MatchDecorator } from "@codemirror/view";
+import { StateEffect } from "@codemirror/state";
+
+/**
+ * Effect dispatched to Live Preview editors to force their link icons to be rebuilt
+ */
+const refreshLinkIconsEffect = StateEffect.define<null>();
+
+/**
+ * Icons resolved for a single link in Live Preview, in display order
+ */
+interface ResolvedLinkIcon {
+	mappings: FolderIconMapping[];
+	extraClass?: string;
+	marker?: string; // Secondary icon for heading and block links
+}
+
+/**
+ * A rule that gives a file an icon, and the kind of rule it is
+ */
+export interface IconMatch {
+	source: IconSource;
+	mapping: FolderIconMapping;
+}
 
 export default class LinkIconPlugin extends Plugin {
 	settings: LinkIconSettings;
@@ -11,12 +47,37 @@ export default class LinkIconPlugin extends Plugin {
 	private lastProcessTime: number = 0;
 	private readonly MIN_PROCESS_INTERVAL = 500;
 	private periodicCheckInterval: ReturnType<typeof setInterval> | null = null;
+	private metadataRefreshTimeout: ReturnType<typeof setTimeout> | null = null;
+	private iconSignatures: Map<string, string> = new Map(); // file path -> last resolved mapping (JSON)
+	private linkIconCache: Map<string, ResolvedLinkIcon | null> = new Map(); // link text -> Live Preview icon
+	private vaultRefreshTimeout: ReturnType<typeof setTimeout> | null = null;
+	private customIconReloadTimeout: ReturnType<typeof setTimeout> | null = null;
+	private settingTab: LinkIconSettingTab;
+	private hoveredLink: HTMLElement | null = null; // Last Reading View link under the mouse
+	private workspaceIcons: WorkspaceIcons = new WorkspaceIcons(this);
+	private canvasIcons: CanvasIcons = new CanvasIcons(this);
 
 	async onload() {
 		await this.loadSettings();
 
 		// Add settings tab
-		this.addSettingTab(new LinkIconSettingTab(this.app, this));
+		this.settingTab = new LinkIconSettingTab(this.app, this);
+		this.addSettingTab(this.settingTab);
+
+		this.addCommand({
+			id: "explain-link-icon",
+			name: "Why this icon? (link under the cursor)",
+			callback: () => this.explainLinkIcon(),
+		});
+
+		// Remember the hovered link so the command can explain it in Reading View
+		this.registerDomEvent(document, "mouseover", (evt: MouseEvent) => {
+			const target = evt.target instanceof HTMLElement ? evt.target : null;
+			const link = target?.closest("a.internal-link, a.external-link") as HTMLElement | null;
+			if (link && !link.closest(".cm-content")) {
+				this.hoveredLink = link;
+			}
+		});
 
 		// Process links when markdown view is opened
 		this.registerEvent(
@@ -25,6 +86,8 @@ export default class LinkIconPlugin extends Plugin {
 				setTimeout(() => {
 					this.processAllLinks();
 					this.updateObserver();
+					this.workspaceIcons.decorate();
+					this.canvasIcons.decorate();
 				}, 300);
 			})
 		);
@@ -34,24 +97,42 @@ export default class LinkIconPlugin extends Plugin {
 			this.app.workspace.on("layout-change", () => {
 				setTimeout(() => {
 					this.updateObserver();
+					this.workspaceIcons.decorate();
+					this.canvasIcons.decorate();
 				}, 200);
 			})
 		);
 
+		// The tab list dropdown is rebuilt each time it opens
+		this.registerDomEvent(document, "click", (evt: MouseEvent) => {
+			const target = evt.target instanceof HTMLElement ? evt.target : null;
+			const tabsEl = target?.closest(".workspace-tab-header-tab-list")?.closest(".workspace-tabs") as HTMLElement | null;
+			if (!tabsEl) {
+				return;
+			}
+			setTimeout(() => {
+				const menus = document.body.querySelectorAll<HTMLElement>(".menu");
+				const menuEl = menus[menus.length - 1];
+				if (menuEl) {
+					this.workspaceIcons.decorateTabList(menuEl, tabsEl);
+				}
+			}, 0);
+		});
+
 		// Process links when markdown is rendered (with higher priority for live preview)
 		this.registerMarkdownPostProcessor((element, context) => {
 			// Process after a short delay to ensure DOM is fully ready
 			setTimeout(() => {
 				this.clearExistingIcons(element);
-				this.processLinksInElement(element);
+				this.processLinksInElement(element, context.sourcePath);
 			}, 50);
 			// Also process again after a longer delay to catch late-rendered links
 			setTimeout(() => {
-				this.processLinksInElement(element);
+				this.processLinksInElement(element, context.sourcePath);
 			}, 200);
 			// One more time for live preview links that render later
 			setTimeout(() => {
-				this.processLinksInElement(element);
+				this.processLinksInElement(element, context.sourcePath);
 			}, 500);
 		}, -1); // Higher priority (lower number = higher priority)
 		
@@ -78,6 +159,9 @@ export default class LinkIconPlugin extends Plugin {
 					lastEditorChangeTime = Date.now();
 					// Process the current view's preview if it exists
 					if (view && view instanceof MarkdownView) {
+						// Resolve links relative to the note being edited
+						const sourcePath = view.file?.path || "";
+
 						// Process live preview mode - find all preview containers
 						if (view.previewMode) {
 							// Try multiple ways to find the preview element
@@ -106,19 +190,19 @@ export default class LinkIconPlugin extends Plugin {
 							
 							if (previewEl) {
 								this.clearExistingIcons(previewEl);
-								this.processLinksInElement(previewEl);
+								this.processLinksInElement(previewEl, sourcePath);
 							}
 							
 							// Also try processing the entire view container as fallback
 							if (view.contentEl) {
 								// Process any links in the entire content element
-								this.processLinksInElement(view.contentEl);
+								this.processLinksInElement(view.contentEl, sourcePath);
 							}
 						}
 						// Also process reading view
 						if (view.contentEl) {
 							this.clearExistingIcons(view.contentEl);
-							this.processLinksInElement(view.contentEl);
+							this.processLinksInElement(view.contentEl, sourcePath);
 						}
 					}
 				}, 200);
@@ -134,10 +218,73 @@ export default class LinkIconPlugin extends Plugin {
 			})
 		);
 
+		// Refresh icons when a note's frontmatter or tags change what icon it should get
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				const signature = JSON.stringify(this.findIconsForFile(file));
+				const previous = this.iconSignatures.get(file.path);
+				this.iconSignatures.set(file.path, signature);
+				if (previous === signature || (previous === undefined && signature === "[]")) {
+					return;
+				}
+
+				// Debounce so a burst of metadata updates triggers a single refresh
+				if (this.metadataRefreshTimeout) {
+					clearTimeout(this.metadataRefreshTimeout);
+				}
+				this.metadataRefreshTimeout = setTimeout(() => {
+					this.metadataRefreshTimeout = null;
+					this.refreshAllIcons();
+				}, 300);
+			})
+		);
+
+		// Links can start or stop resolving when notes are created, deleted or moved
+		const onVaultChange = () => {
+			if (this.vaultRefreshTimeout) {
+				clearTimeout(this.vaultRefreshTimeout);
+			}
+			this.vaultRefreshTimeout = setTimeout(() => {
+				this.vaultRefreshTimeout = null;
+				this.refreshAllIcons();
+			}, 300);
+		};
+
 		// Process links on layout change (for live preview)
 		this.app.workspace.onLayoutReady(() => {
 			this.processAllLinks();
 			this.setupObserver();
+			this.workspaceIcons.decorate();
+			this.canvasIcons.decorate();
+
+			this.reloadCustomIcons();
+
+			// Registered once the vault is loaded so the initial "create" burst is ignored
+			this.registerEvent(
+				this.app.vault.on("create", (file) => {
+					this.handleCustomIconChange(file.path);
+					onVaultChange();
+				})
+			);
+			this.registerEvent(
+				this.app.vault.on("modify", (file) => {
+					this.handleCustomIconChange(file.path);
+				})
+			);
+			this.registerEvent(
+				this.app.vault.on("delete", (file) => {
+					this.handleFolderDelete(file);
+					this.handleCustomIconChange(file.path);
+					onVaultChange();
+				})
+			);
+			this.registerEvent(
+				this.app.vault.on("rename", (file, oldPath) => {
+					this.handleFolderRename(file, oldPath);
+					this.handleCustomIconChange(file.path, oldPath);
+					onVaultChange();
+				})
+			);
 		});
 
 		// Process existing views
@@ -152,7 +299,7 @@ export default class LinkIconPlugin extends Plugin {
 					const container = activeView.previewMode.containerEl;
 					const previewEl = container.querySelector(".markdown-preview-view") || container;
 					if (previewEl) {
-						this.processLinksInElement(previewEl as HTMLElement);
+						this.processLinksInElement(previewEl as HTMLElement, activeView.file?.path || "");
 					}
 				}
 			}
@@ -160,6 +307,8 @@ export default class LinkIconPlugin extends Plugin {
 	}
 
 	onunload() {
+		this.workspaceIcons.destroy();
+		this.canvasIcons.destroy();
 		if (this.observer) {
 			this.observer.disconnect();
 			this.observer = null;
@@ -168,11 +317,24 @@ export default class LinkIconPlugin extends Plugin {
 			clearInterval(this.periodicCheckInterval);
 			this.periodicCheckInterval = null;
 		}
+		if (this.metadataRefreshTimeout) {
+			clearTimeout(this.metadataRefreshTimeout);
+			this.metadataRefreshTimeout = null;
+		}
+		if (this.vaultRefreshTimeout) {
+			clearTimeout(this.vaultRefreshTimeout);
+			this.vaultRefreshTimeout = null;
+		}
+		if (this.customIconReloadTimeout) {
+			clearTimeout(this.customIconReloadTimeout);
+			this.customIconReloadTimeout = null;
+		}
 	}
 
 	async loadSettings() {
 		const loadedData = await this.loadData();
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, loadedData);
+		// Copy the defaults so editing a default table or list doesn't change DEFAULT_SETTINGS
+		this.settings = Object.assign({}, JSON.parse(JSON.stringify(DEFAULT_SETTINGS)), loadedData);
 		
 		// Migrate old format (string mappings) to new format (FolderIconMapping)
 		if (loadedData && loadedData.folderIconMap) {
@@ -201,6 +363,124 @@ export default class LinkIconPlugin extends Plugin {
 		await this.saveData(this.settings);
 	}
 
+	/**
+	 * Open the explanation for the link under the editor cursor, or in Reading View
+	 * for the link under the mouse
+	 */
+	explainLinkIcon() {
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const sourcePath = view?.file?.path || "";
+		let explanation: IconExplanation | null = null;
+
+		if (view && view.getMode() === "source") {
+			const cursor = view.editor.getCursor();
+			const link = findLinkAt(view.editor.getLine(cursor.line), cursor.ch);
+			if (link) {
+				explanation = link.type === "internal"
+					? explainInternalLink(this, link.linkText, sourcePath)
+					: explainExternalLink(this, link.url);
+			}
+		} else if (this.hoveredLink && this.hoveredLink.isConnected) {
+			const link = this.hoveredLink;
+			if (link.hasClass("external-link")) {
+				explanation = explainExternalLink(this, link.getAttribute("href") || "");
+			} else {
+				const linkText = link.getAttribute("data-href") || link.getAttribute("href") || "";
+				explanation = explainInternalLink(this, linkText, sourcePath);
+			}
+		}
+
+		if (!explanation) {
+			new Notice("Put the cursor on a link (or hover over one in Reading View) to see why it has its icon");
+			return;
+		}
+		new IconExplanationModal(this.app, this, explanation).open();
+	}
+
+	/**
+	 * Open the plugin's settings scrolled to a mapping
+	 */
+	openSettingsAt(table: MappingTable, key: string) {
+		// The settings modal isn't part of the public API
+		const setting = (this.app as unknown as { setting: { open(): void; openTabById(id: string): void } }).setting;
+		setting.open();
+		setting.openTabById(this.manifest.id);
+		this.settingTab.revealMapping(table, key);
+	}
+
+	/**
+	 * Load the custom SVG icons from the configured folder and redraw icons
+	 */
+	async reloadCustomIcons() {
+		const failed = await customIcons.load(this.app.vault, this.settings.customIconFolder);
+		if (failed.length > 0) {
+			new Notice(`Link Icon: these custom icons couldn't be loaded\n${failed.join("\n")}`, 10000);
+		}
+		this.refreshAllIcons();
+	}
+
+	/**
+	 * Schedule a custom icon reload when a file in the icon folder changes
+	 */
+	handleCustomIconChange(path: string, oldPath?: string) {
+		const folder = this.settings.customIconFolder.trim().replace(/\/+$/, "");
+		if (!folder) {
+			return;
+		}
+		const affected = [path, oldPath].some(p => p !== undefined && (p === folder || isInFolder({ path: p }, folder)));
+		if (!affected) {
+			return;
+		}
+
+		if (this.customIconReloadTimeout) {
+			clearTimeout(this.customIconReloadTimeout);
+		}
+		this.customIconReloadTimeout = setTimeout(() => {
+			this.customIconReloadTimeout = null;
+			this.reloadCustomIcons();
+		}, 500);
+	}
+
+	/**
+	 * Keep folder mappings pointing at a folder (and its subfolders) after it is renamed or moved
+	 */
+	async handleFolderRename(file: TAbstractFile, oldPath: string) {
+		if (!(file instanceof TFolder)) {
+			return;
+		}
+
+		const result = renameFolderKeys(this.settings.folderIconMap, oldPath, file.path);
+		if (result.renamed.length === 0 && result.skipped.length === 0) {
+			return;
+		}
+
+		this.settings.folderIconMap = result.folderIconMap;
+		this.settings.folderRuleOrder = renameInOrder(this.settings.folderRuleOrder, result.renamed);
+		await this.saveSettings();
+
+		const lines = result.renamed.map(([from, to]) => `${from} → ${to}`);
+		result.skipped.forEach((key) => {
+			lines.push(`${key} (not moved: the new location already has a mapping)`);
+		});
+		new Notice(`Link Icon: updated folder mappings\n${lines.join("\n")}`, 10000);
+	}
+
+	/**
+	 * Warn about mappings whose folder was deleted. They are kept (and flagged in
+	 * the settings tab) so they work again if the folder comes back.
+	 */
+	handleFolderDelete(file: TAbstractFile) {
+		if (!(file instanceof TFolder)) {
+			return;
+		}
+
+		const affected = findMappingsInFolder(this.settings.folderIconMap, file.path);
+		if (affected.length === 0) {
+			return;
+		}
+		new Notice(`Link Icon: these folder mappings now point to a missing folder\n${affected.join("\n")}`, 10000);
+	}
+
 	/**
 	 * Set up a mutation observer to watch for DOM changes in the markdown views
 	 */
@@ -225,8 +505,9 @@ export default class LinkIconPlugin extends Plugin {
 						for (const node of Array.from(mutation.addedNodes)) {
 							if (node instanceof HTMLElement) {
 								// Check if this is a link or contains links
-								const isLink = node.tagName === "A" && (node.classList.contains("internal-link") || node.hasAttribute("data-href"));
-								const containsLinks = node.querySelector && node.querySelector("a.internal-link, a[data-href]");
+								const isLink = (node.tagName === "A" && (node.classList.contains("internal-link") || node.hasAttribute("data-href")))
+									|| node.classList.contains("internal-embed");
+								const containsLinks = node.querySelector && node.querySelector("a.internal-link, a[data-href], .internal-embed");
 								
 								if (isLink || containsLinks) {
 									shouldProcess = true;
@@ -279,11 +560,12 @@ export default class LinkIconPlugin extends Plugin {
 		const markdownViews = this.app.workspace.getLeavesOfType("markdown");
 		markdownViews.forEach((leaf) => {
 			const view = leaf.view as MarkdownView;
+			const sourcePath = view.file?.path || "";
 			
 			// Process reading view content
 			if (view.contentEl) {
 				this.clearExistingIcons(view.contentEl);
-				this.processLinksInElement(view.contentEl);
+				this.processLinksInElement(view.contentEl, sourcePath);
 			}
 			
 			// Process live preview mode - try multiple selectors
@@ -296,12 +578,12 @@ export default class LinkIconPlugin extends Plugin {
 					const previewEl = container.querySelector(".markdown-preview-view") as HTMLElement;
 					if (previewEl) {
 						this.clearExistingIcons(previewEl);
-						this.processLinksInElement(previewEl);
+						this.processLinksInElement(previewEl, sourcePath);
 					}
 					
 					// Also process the container itself (in case links are directly in it)
 					this.clearExistingIcons(container);
-					this.processLinksInElement(container);
+					this.processLinksInElement(container, sourcePath);
 				}
 				
 				// Also try finding preview in the view's contentEl
@@ -309,13 +591,39 @@ export default class LinkIconPlugin extends Plugin {
 					const previewInContent = view.contentEl.querySelector(".markdown-preview-view") as HTMLElement;
 					if (previewInContent) {
 						this.clearExistingIcons(previewInContent);
-						this.processLinksInElement(previewInContent);
+						this.processLinksInElement(previewInContent, sourcePath);
 					}
 				}
 			}
 		});
 	}
 
+	/**
+	 * Rebuild icons everywhere: Reading View DOM, Live Preview decorations,
+	 * canvases and the file explorer and tab headers
+	 */
+	refreshAllIcons() {
+		this.processAllLinks();
+		this.refreshLivePreview();
+		this.canvasIcons.refresh();
+		this.workspaceIcons.refresh();
+	}
+
+	/**
+	 * Ask every Live Preview editor to rebuild its link icon decorations
+	 */
+	refreshLivePreview() {
+		this.linkIconCache.clear();
+		this.app.workspace.getLeavesOfType("markdown").forEach((leaf) => {
+			const view = leaf.view as MarkdownView;
+			// The CodeMirror 6 instance isn't part of the public typings
+			const cm = (view.editor as unknown as { cm?: EditorView } | undefined)?.cm;
+			if (cm) {
+				cm.dispatch({ effects: refreshLinkIconsEffect.of(null) });
+			}
+		});
+	}
+
 	/**
 	 * Clear existing link icons and reset processed markers
 	 */
@@ -331,9 +639,10 @@ export default class LinkIconPlugin extends Plugin {
 	}
 
 	/**
-	 * Process wiki-links in a specific element
+	 * Process wiki-links in a specific element.
+	 * Links are resolved relative to sourcePath, the note the element belongs to.
 	 */
-	processLinksInElement(element: HTMLElement) {
+	processLinksInElement(element: HTMLElement, sourcePath: string = "") {
 		// Find all internal wiki-links ([[link]] format)
 		// In live preview, links might be in different structures
 		// Try multiple selectors as Obsidian may use different ones
@@ -344,7 +653,8 @@ export default class LinkIconPlugin extends Plugin {
 		linksToProcess = Array.from(readingViewLinks);
 		
 		// Handle live preview structure: span.cm-hmd-internal-link containing a.cm-underline
-		// IMPORTANT: These spans are in the CodeMirror editor DOM, not the rendered preview
+		// IMPORTANT: These spans are in the CodeMirror editor DOM, not the rendered preview.
+		// Only spans inside element are taken, since they're resolved against its sourcePath.
 		const livePreviewContainers = element.querySelectorAll("span.cm-hmd-internal-link");
 		livePreviewContainers.forEach((container) => {
 			// Check if already processed
@@ -360,18 +670,6 @@ export default class LinkIconPlugin extends Plugin {
 			}
 		});
 		
-		// Also look for cm-hmd-internal-link in the entire document (for CodeMirror editor)
-		// The markdown post processor might not catch these, so we search more broadly
-		const allCmLinks = document.querySelectorAll("span.cm-hmd-internal-link");
-		allCmLinks.forEach((cmLink) => {
-			if (!linksToProcess.includes(cmLink) && !cmLink.hasAttribute("data-link-icon-processed")) {
-				const linkParts = Array.from(cmLink.querySelectorAll("a.cm-underline, a"));
-				if (linkParts.length > 0) {
-					linksToProcess.push(cmLink);
-				}
-			}
-		});
-		
 		// Also find other CodeMirror link elements
 		const cmLinks = element.querySelectorAll("a.cm-link, span.cm-link");
 		Array.from(cmLinks).forEach((link) => {
@@ -412,6 +710,10 @@ export default class LinkIconPlugin extends Plugin {
 			if (link.hasAttribute("data-link-icon-processed")) {
 				return;
 			}
+			// Links in the properties view have their own setting
+			if (!this.settings.showInProperties && link.closest(".metadata-container")) {
+				return;
+			}
 
 			// Handle different link structures
 			const linkElement = link as HTMLElement;
@@ -467,7 +769,11 @@ export default class LinkIconPlugin extends Plugin {
 				           "";
 				
 				// Handle different href formats
-				if (href.startsWith("#")) {
+				const dataHref = actualLinkElement.getAttribute("data-href");
+				if (linkElement.classList.contains("internal-link") && dataHref) {
+					// Obsidian's own link target, keeping heading/block subpaths and same-note links (#Heading)
+					linkPath = dataHref;
+				} else if (href.startsWith("#")) {
 					linkPath = href.substring(1);
 					// If href is just "#", use link text as path
 					if (!linkPath || linkPath === "") {
@@ -497,22 +803,29 @@ export default class LinkIconPlugin extends Plugin {
 			if (!linkPath) {
 				return;
 			}
+			// Markdown links may carry %20-style escapes in their href
+			linkPath = decodeLinkPath(linkPath);
 
 			// Get the file for this link
-			const file = this.app.metadataCache.getFirstLinkpathDest(linkPath, "");
+			const { file, subpath } = this.resolveLinkTarget(linkPath, sourcePath);
 			
-			if (!file || !(file instanceof TFile)) {
+			// Find matching icon mappings (tag and folder rules), or the unresolved-link icon
+			// for links Obsidian itself marks as pointing to a missing note
+			let iconMappings: FolderIconMapping[] = [];
+			let isUnresolved = false;
+			let marker: string | null = null;
+			if (file) {
+				iconMappings = this.findIconsForFile(file);
+				marker = this.getSubpathMarker(subpath);
+			} else if (linkElement.classList.contains("is-unresolved")) {
+				const unresolvedMapping = this.getUnresolvedMapping();
+				iconMappings = unresolvedMapping ? [unresolvedMapping] : [];
+				isUnresolved = true;
+			} else {
 				return;
 			}
 
-			// Get the folder path (parent folder)
-			const folderPath = file.parent ? file.parent.path : "";
-			const normalizedFolderPath = folderPath === "" ? "" : folderPath;
-
-			// Find matching icon mapping
-			let iconMapping = this.findIconForFolder(normalizedFolderPath);
-
-			if (iconMapping) {
+			if (iconMappings.length > 0 || marker) {
 				// Check if icon already exists for this link
 				const linkId = linkElement.getAttribute("data-link-id") || `link-${Date.now()}-${Math.random()}`;
 				linkElement.setAttribute("data-link-id", linkId);
@@ -530,10 +843,23 @@ export default class LinkIconPlugin extends Plugin {
 					return;
 				}
 
-				// Create icon element with mapping-specific color
-				const iconColor = iconMapping.color || this.settings.iconColor;
-				const iconElement = this.createIconElement(iconMapping.icon, iconColor);
-				iconElement.setAttribute("data-link-id", linkId);
+				// Create icon elements with mapping-specific colors, in stack order
+				const iconElements = iconMappings.map((iconMapping) => {
+					const iconColor = iconMapping.color || this.settings.iconColor;
+					const iconElement = this.createIconElement(iconMapping.icon, iconColor, iconMapping);
+					iconElement.setAttribute("data-link-id", linkId);
+					if (isUnresolved) {
+						iconElement.addClass("link-icon-unresolved");
+					}
+					return iconElement;
+				});
+				// Heading and block links get a small marker after the file's icons
+				if (marker) {
+					const markerElement = this.createIconElement(marker);
+					markerElement.addClass("link-icon-subpath-marker");
+					markerElement.setAttribute("data-link-id", linkId);
+					iconElements.push(markerElement);
+				}
 
 				// Insert icon based on position setting
 				// For live preview spans, we need to be careful about insertion
@@ -553,322 +879,583 @@ export default class LinkIconPlugin extends Plugin {
 					return;
 				}
 				
-				try {
-					if (this.settings.iconPosition === "before") {
-						// Insert before the link
-						insertionParent.insertBefore(iconElement, insertionReference);
-					} else {
-						// Insert after the link
-						if (insertionReference.nextSibling) {
-							insertionParent.insertBefore(iconElement, insertionReference.nextSibling);
+				const parent = insertionParent;
+				// After the link, each icon goes after the previous one to keep the stack order
+				let previous: Node = insertionReference;
+				iconElements.forEach((iconElement) => {
+					try {
+						if (this.settings.iconPosition === "before") {
+							// Insert before the link
+							parent.insertBefore(iconElement, insertionReference);
 						} else {
-							insertionParent.appendChild(iconElement);
+							// Insert after the link
+							parent.insertBefore(iconElement, previous.nextSibling);
+							previous = iconElement;
+						}
+					} catch (e) {
+						// If insertion fails, try appending to parent
+						try {
+							parent.appendChild(iconElement);
+						} catch (e2) {
+							// Failed to insert icon
 						}
 					}
-				} catch (e) {
-					// If insertion fails, try appending to parent
-					try {
-						insertionParent.appendChild(iconElement);
-					} catch (e2) {
-						// Failed to insert icon
-					}
-				}
+				});
 
 				// Mark as processed
 				linkElement.setAttribute("data-link-icon-processed", "true");
 			}
 		});
+
+		this.processExternalLinksInElement(element);
+		this.processEmbedsInElement(element, sourcePath);
 	}
 
 	/**
-	 * Find the icon mapping for a given folder path
+	 * Mark embeds (![[...]]) in rendered content with the embedded file's icons or the embed
+	 * icon, depending on the embed setting. Live Preview renders embeds the same way as
+	 * Reading View, so both are handled here.
 	 */
-	findIconForFolder(folderPath: string): FolderIconMapping | null {
-		// Try exact match first
-		if (this.settings.folderIconMap[folderPath]) {
-			return this.settings.folderIconMap[folderPath];
+	processEmbedsInElement(element: HTMLElement, sourcePath: string) {
+		if (this.settings.embedIconMode === "skip") {
+			return;
 		}
 
-		// Try parent folders (more specific to less specific)
-		const pathParts = folderPath.split("/").filter(p => p !== "");
-		for (let i = pathParts.length; i > 0; i--) {
-			const partialPath = pathParts.slice(0, i).join("/");
-			if (this.settings.folderIconMap[partialPath]) {
-				return this.settings.folderIconMap[partialPath];
+		element.querySelectorAll<HTMLElement>(".internal-embed[src]").forEach((embed) => {
+			// Embeds can re-render their content, so look for the header rather than a marker
+			if (embed.querySelector(":scope > .link-icon-embed-header")) {
+				return;
+			}
+
+			let mappings: FolderIconMapping[] = [];
+			let extraClass: string | undefined;
+			const src = embed.getAttribute("src") || "";
+			if (this.settings.embedIconMode === "separate") {
+				mappings = this.settings.embedIcon ? [{ icon: this.settings.embedIcon }] : [];
+			} else {
+				const { file } = this.resolveLinkTarget(src, sourcePath);
+				if (file) {
+					mappings = this.findIconsForFile(file);
+				} else if (this.isUnresolvedLink(src, sourcePath)) {
+					const unresolvedMapping = this.getUnresolvedMapping();
+					mappings = unresolvedMapping ? [unresolvedMapping] : [];
+					extraClass = "link-icon-unresolved";
+				}
+			}
+			if (mappings.length === 0) {
+				return;
+			}
+
+			// Icons sit in a small header in the embed's top corner
+			const header = createSpan({ cls: "link-icon link-icon-embed-header" });
+			mappings.forEach((mapping) => {
+				const iconElement = this.createIconElement(mapping.icon, mapping.color || this.settings.iconColor, mapping);
+				if (extraClass) {
+					iconElement.addClass(extraClass);
+				}
+				header.appendChild(iconElement);
+			});
+			embed.prepend(header);
+		});
+	}
+
+	/**
+	 * Add icons to external (http, https and mailto) links in rendered Reading View content
+	 */
+	processExternalLinksInElement(element: HTMLElement) {
+		if (!this.settings.showExternalIcons) {
+			return;
+		}
+
+		const externalLinks = element.querySelectorAll("a.external-link, a[href^='http://'], a[href^='https://'], a[href^='mailto:']");
+		externalLinks.forEach((link) => {
+			// Live Preview editor content is decorated by the CodeMirror extension
+			if (link.hasAttribute("data-link-icon-processed") || link.closest(".cm-content")) {
+				return;
 			}
+
+			const href = link.getAttribute("href") || "";
+			const iconMapping = this.findIconForUrl(href);
+			const parent = link.parentElement;
+			if (!iconMapping || !parent) {
+				return;
+			}
+
+			const iconElement = this.createIconElement(iconMapping.icon, iconMapping.color || this.settings.iconColor, iconMapping);
+			iconElement.addClass("link-icon-external");
+			if (this.settings.iconPosition === "before") {
+				parent.insertBefore(iconElement, link);
+			} else {
+				parent.insertBefore(iconElement, link.nextSibling);
+			}
+			link.setAttribute("data-link-icon-processed", "true");
+		});
+	}
+
+	/**
+	 * Find the icon mapping for an external URL: the most specific domain rule,
+	 * else the generic web or mail icon
+	 */
+	findIconForUrl(url: string): FolderIconMapping | null {
+		if (!this.settings.showExternalIcons) {
+			return null;
 		}
 
-		// Try root folder default
-		if (this.settings.folderIconMap[""]) {
-			return this.settings.folderIconMap[""];
+		if (/^mailto:/i.test(url)) {
+			return this.settings.mailtoIcon ? { icon: this.settings.mailtoIcon } : null;
 		}
 
-		return null;
+		let parsedUrl: URL;
+		try {
+			parsedUrl = new URL(url);
+		} catch (e) {
+			return null;
+		}
+		if (parsedUrl.protocol !== "http:" && parsedUrl.protocol !== "https:") {
+			return null;
+		}
+
+		let bestMapping: FolderIconMapping | null = null;
+		let bestScore = 0;
+		for (const [rule, mapping] of Object.entries(this.settings.domainIconMap)) {
+			const score = matchDomainRule(rule, parsedUrl);
+			if (score > bestScore) {
+				bestMapping = mapping;
+				bestScore = score;
+			}
+		}
+		if (bestMapping) {
+			return bestMapping;
+		}
+
+		return this.settings.externalIcon ? { icon: this.settings.externalIcon } : null;
 	}
 
 	/**
-	 * Create a CodeMirror extension for link icons
+	 * All icons shown for a link to a file, in display order
 	 */
-	createLinkIconExtension() {
-		const plugin = this;
-		
-		const iconField = StateField.define<DecorationSet>({
-			create() {
-				return Decoration.none;
-			},
-			update(decorations, tr) {
-				decorations = decorations.map(tr.changes);
-				
-				// Find links in the document and add decorations
-				const newDecorations: Array<ReturnType<ReturnType<typeof Decoration.widget>["range"]>> = [];
-				
-				// Process the document to find links
-				const doc = tr.state.doc;
-				const text = doc.toString();
-				
-				// Simple regex to find wiki-links [[link]] or [[link|alias]]
-				const wikiLinkRegex = /\[\[([^\]]+)\]\]/g;
-				let match;
-				
-				while ((match = wikiLinkRegex.exec(text)) !== null) {
-					const start = match.index;
-					const end = start + match[0].length;
-					const linkText = match[1].split('|')[0]; // Get link part, ignore alias
-					
-					// Get the icon mapping for this link
-					const file = plugin.app.metadataCache.getFirstLinkpathDest(linkText, "");
-					if (file && file instanceof TFile) {
-						const folderPath = file.parent ? file.parent.path : "";
-						const iconMapping = plugin.findIconForFolder(folderPath);
-						
-						if (iconMapping) {
-							const iconColor = iconMapping.color || plugin.settings.iconColor;
-							const widget = new LinkIconWidget(iconMapping.icon, iconColor, plugin.settings.iconSize);
-							
-							if (plugin.settings.iconPosition === "before") {
-								const decoration = Decoration.widget({
-									widget,
-									side: -1
-								});
-								newDecorations.push(decoration.range(start));
-							} else {
-								const decoration = Decoration.widget({
-									widget,
-									side: 1
-								});
-								newDecorations.push(decoration.range(end));
-							}
-						}
-					}
-				}
-				
-				return Decoration.set(newDecorations);
-			},
-			provide(field) {
-				return EditorView.decorations.from(field);
+	findIconsForFile(file: TFile): FolderIconMapping[] {
+		const override = this.findIconForFrontmatter(file);
+		const mappings = this.findIconMatches(file, override).map(match => match.mapping);
+
+		// A color-only override recolors whatever icons the rules picked
+		if (override && !override.icon && override.color) {
+			return mappings.map(mapping => ({ ...mapping, color: override.color }));
+		}
+		return mappings;
+	}
+
+	/**
+	 * The rules whose icons a link to the file shows, before any color override.
+	 * With one icon per link, the frontmatter icon beats every rule; tag and folder
+	 * rules are checked in the order given by the rule precedence setting, and file-type
+	 * rules either beat or back them up. With more icons each kind of rule adds its match
+	 * in the configured stack order, skipping duplicates if enabled, up to the maximum.
+	 */
+	findIconMatches(file: TFile, override: Partial<FolderIconMapping> | null = this.findIconForFrontmatter(file)): IconMatch[] {
+		const find = (source: IconSource): IconMatch | null => {
+			const mapping = this.findIconForSource(file, source, override);
+			return mapping ? { source, mapping } : null;
+		};
+
+		if (this.settings.maxIconsPerLink <= 1) {
+			const frontmatterMatch = find("frontmatter");
+			if (frontmatterMatch) {
+				return [frontmatterMatch];
+			}
+			const match = this.settings.rulePrecedence === "folder"
+				? find("folder") || find("tag")
+				: find("tag") || find("folder");
+			const extensionMatch = find("extension");
+			if (extensionMatch && (this.settings.extensionRulesFirst || !match)) {
+				return [extensionMatch];
+			}
+			return match ? [match] : [];
+		}
+
+		const matches: IconMatch[] = [];
+		for (const source of this.settings.iconStackOrder) {
+			const match = find(source);
+			if (!match) {
+				continue;
+			}
+			if (this.settings.dedupeStackedIcons && matches.some(m => m.mapping.icon === match.mapping.icon)) {
+				continue;
 			}
+			matches.push(match);
+			if (matches.length >= this.settings.maxIconsPerLink) {
+				break;
+			}
+		}
+		return matches;
+	}
+
+	/**
+	 * The icon one kind of rule gives a file, if any
+	 */
+	private findIconForSource(file: TFile, source: IconSource, override: Partial<FolderIconMapping> | null): FolderIconMapping | null {
+		switch (source) {
+			case "frontmatter":
+				return override && override.icon
+					? { icon: override.icon, ...(override.color ? { color: override.color } : {}) }
+					: null;
+			case "folder":
+				return this.findIconForFolder(file.parent ? file.parent.path : "", file.path);
+			case "tag":
+				return this.findIconForTags(file);
+			case "extension":
+				return this.findIconForExtension(file);
+		}
+	}
+
+	/**
+	 * Find the icon mapping for a file's extension (e.g. pdf, png, canvas)
+	 */
+	findIconForExtension(file: TFile): FolderIconMapping | null {
+		const extensionMap = new Map<string, FolderIconMapping>();
+		Object.entries(this.settings.extensionIconMap).forEach(([extension, mapping]) => {
+			extensionMap.set(normalizeExtension(extension), mapping);
 		});
-		
-		return iconField;
+		if (extensionMap.size === 0) {
+			return null;
+		}
+
+		for (const extension of getFileExtensions(file.name)) {
+			const mapping = extensionMap.get(extension);
+			if (mapping) {
+				return mapping;
+			}
+		}
+		return null;
 	}
 
 	/**
-	 * Get a Lucide icon by PascalCase name with type safety
+	 * Read the per-note icon and color override from the file's frontmatter
 	 */
-	private getLucideIcon(pascalKey: string): unknown {
-		// Use Record type for safer access than 'as any'
-		const icons = LucideIcons as Record<string, unknown>;
-		return icons[pascalKey] || null;
+	findIconForFrontmatter(file: TFile): Partial<FolderIconMapping> | null {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter) {
+			return null;
+		}
+
+		const readString = (property: string): string | undefined => {
+			if (!property) return undefined;
+			const value = frontmatter[property];
+			return typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+		};
+
+		const icon = readString(this.settings.frontmatterIconProperty);
+		const color = readString(this.settings.frontmatterColorProperty);
+		if (!icon && !color) {
+			return null;
+		}
+		return { ...(icon ? { icon } : {}), ...(color ? { color } : {}) };
 	}
 
 	/**
-	 * Create an SVG icon element from Lucide
+	 * Icon mapping for links whose target note doesn't exist yet, or null when disabled
 	 */
-	createIconElement(iconName: string, color?: string): HTMLElement {
-		const iconContainer = document.createElement("span");
-		iconContainer.addClass("link-icon");
-		iconContainer.addClass(this.settings.iconPosition === "before" ? "link-icon-before" : "link-icon-after");
+	getUnresolvedMapping(): FolderIconMapping | null {
+		if (!this.settings.showUnresolvedIcon || !this.settings.unresolvedIcon) {
+			return null;
+		}
+		return {
+			icon: this.settings.unresolvedIcon,
+			...(this.settings.unresolvedColor ? { color: this.settings.unresolvedColor } : {})
+		};
+	}
 
-		try {
-			// Get the icon from Lucide (convert kebab-case to PascalCase)
-			const pascalKey = this.toPascalCase(iconName);
-			const Icon = this.getLucideIcon(pascalKey);
-			
-			if (!Icon) {
-				throw new Error(`Icon "${iconName}" (${pascalKey}) not found in Lucide`);
-			}
-
-			// Create SVG element
-			const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
-			svg.setAttribute("width", this.settings.iconSize.toString());
-			svg.setAttribute("height", this.settings.iconSize.toString());
-			svg.setAttribute("viewBox", "0 0 24 24");
-			svg.setAttribute("fill", "none");
-			svg.setAttribute("stroke", color || this.settings.iconColor);
-			svg.setAttribute("stroke-width", "2");
-			svg.setAttribute("stroke-linecap", "round");
-			svg.setAttribute("stroke-linejoin", "round");
-			
-			// Lucide icon structure: ['svg', {svgAttrs}, [children]]
-			if (!Array.isArray(Icon)) {
-				throw new Error(`Icon "${iconName}" is not an array structure`);
+	/**
+	 * Whether raw link text points to a note that doesn't exist.
+	 * Heading/block subpaths are ignored, and same-note links are never unresolved.
+	 */
+	isUnresolvedLink(linkText: string, sourcePath: string = ""): boolean {
+		const { path } = splitSubpath(linkText);
+		if (!path) {
+			return false;
+		}
+		return !this.app.metadataCache.getFirstLinkpathDest(path, sourcePath);
+	}
+
+	/**
+	 * The file an internal link points to, and its heading or block subpath.
+	 * Same-note links ([[#Heading]], [[#^block]]) point to the note containing them.
+	 */
+	resolveLinkTarget(linkText: string, sourcePath: string): { file: TFile | null; subpath: string } {
+		const { path, subpath } = splitSubpath(linkText);
+		const file = path
+			? this.app.metadataCache.getFirstLinkpathDest(path, sourcePath)
+			: this.app.vault.getAbstractFileByPath(sourcePath);
+		return { file: file instanceof TFile ? file : null, subpath };
+	}
+
+	/**
+	 * Icon name of the secondary marker for a heading or block subpath, or null for none
+	 */
+	getSubpathMarker(subpath: string): string | null {
+		if (!this.settings.showSubpathMarker || !subpath) {
+			return null;
+		}
+		const marker = isBlockSubpath(subpath) ? this.settings.blockMarkerIcon : this.settings.headingMarkerIcon;
+		return marker || null;
+	}
+
+	/**
+	 * Find the icon mapping for a file's tags.
+	 * A rule for a parent tag also matches nested tags; the deepest match wins.
+	 */
+	findIconForTags(file: TFile): FolderIconMapping | null {
+		const tagEntries = Object.entries(this.settings.tagIconMap);
+		if (tagEntries.length === 0) {
+			return null;
+		}
+
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) {
+			return null;
+		}
+		const fileTags = getAllTags(cache) || [];
+
+		// Tags are case-insensitive in Obsidian
+		const tagMap = new Map<string, FolderIconMapping>();
+		tagEntries.forEach(([tag, mapping]) => tagMap.set(normalizeTag(tag), mapping));
+
+		let bestMapping: FolderIconMapping | null = null;
+		let bestDepth = 0;
+		for (const fileTag of fileTags) {
+			const tagParts = normalizeTag(fileTag).split("/").filter(p => p !== "");
+			// Walk from the full nested tag up to its top-level parent
+			for (let i = tagParts.length; i > bestDepth; i--) {
+				const mapping = tagMap.get(tagParts.slice(0, i).join("/"));
+				if (mapping) {
+					bestMapping = mapping;
+					bestDepth = i;
+					break;
+				}
 			}
-			
-			// Standard Lucide structure: ['svg', {attrs}, [children]]
-			if (Icon.length === 3 && Icon[0] === "svg" && typeof Icon[1] === "object" && Array.isArray(Icon[2])) {
-				// Apply SVG attributes (ignore, we set our own)
-				// Process children array
-				const children = Icon[2];
-				children.forEach((child: unknown) => {
-					if (Array.isArray(child) && child.length >= 2) {
-						const tagName = child[0];
-						const attrs = child[1];
-						this.createSvgElement(svg, tagName, attrs);
-					}
-				});
+		}
+
+		return bestMapping;
+	}
+
+	/**
+	 * Find the icon mapping for a given folder path.
+	 * By default regex keys are tested against the full file path (when given) first;
+	 * then the folder chain is walked from most to least specific, preferring literal
+	 * folder keys over glob keys at each level. With list-order priority the first
+	 * rule in the priority list that applies wins instead.
+	 */
+	findIconForFolder(folderPath: string, filePath?: string): FolderIconMapping | null {
+		const entries = orderedEntries(this.settings.folderIconMap, this.settings.folderRuleOrder);
+		if (this.settings.folderRulePriority === "order") {
+			const winner = entries.find(([key, mapping]) => folderRuleMatches(key, mapping, folderPath, filePath));
+			return winner ? winner[1] : null;
+		}
+
+		// Patterns are tried in priority order
+		const globEntries: Array<[string, FolderIconMapping]> = [];
+		const regexEntries: Array<[string, FolderIconMapping]> = [];
+		for (const [key, mapping] of entries) {
+			if (mapping.matchType === "glob") {
+				globEntries.push([key, mapping]);
+			} else if (mapping.matchType === "regex") {
+				regexEntries.push([key, mapping]);
 			}
-			// Fallback: array of arrays
-			else if (Icon.length > 0 && Array.isArray(Icon[0])) {
-				Icon.forEach((item: unknown) => {
-					if (Array.isArray(item) && item.length >= 2) {
-						const tagName = item[0];
-						const attrs = item[1];
-						this.createSvgElement(svg, tagName, attrs);
-					}
-				});
+		}
+
+		// Literal folder key or the first glob matching this exact folder
+		const matchFolder = (path: string): FolderIconMapping | null => {
+			const literal = this.settings.folderIconMap[path];
+			if (literal && (!literal.matchType || literal.matchType === "folder")) {
+				return literal;
 			}
-			// Fallback: alternating tag and attrs
-			else if (Icon.length >= 2 && typeof Icon[0] === "string") {
-				for (let i = 0; i < Icon.length; i += 2) {
-					const tagName = Icon[i];
-					const attrs = Icon[i + 1];
-					
-					if (!tagName || !attrs) continue;
-					
-					this.createSvgElement(svg, tagName, attrs);
+			for (const [pattern, mapping] of globEntries) {
+				if (compilePattern(pattern, "glob")?.test(path)) {
+					return mapping;
 				}
 			}
-			else {
-				throw new Error(`Unknown icon structure for "${iconName}"`);
+			return null;
+		};
+
+		// Regex rules on the full file path
+		if (filePath !== undefined) {
+			for (const [pattern, mapping] of regexEntries) {
+				if (compilePattern(pattern, "regex")?.test(filePath)) {
+					return mapping;
+				}
 			}
-			
-			// Only append if SVG has children
-			if (svg.children.length > 0) {
-				iconContainer.appendChild(svg);
-			} else {
-				throw new Error("No SVG paths created");
+		}
+
+		// Try exact match first
+		const exactMatch = matchFolder(folderPath);
+		if (exactMatch) {
+			return exactMatch;
+		}
+
+		// Try parent folders (more specific to less specific)
+		const pathParts = folderPath.split("/").filter(p => p !== "");
+		for (let i = pathParts.length; i > 0; i--) {
+			const partialPath = pathParts.slice(0, i).join("/");
+			const parentMatch = matchFolder(partialPath);
+			if (parentMatch) {
+				return parentMatch;
 			}
-		} catch (error) {
-			// Fallback: create a default file icon
-			const svg = this.createDefaultIcon();
-			iconContainer.appendChild(svg);
 		}
 
-		return iconContainer;
+		// Try root folder default
+		return matchFolder("");
 	}
 
 	/**
-	 * Create an SVG element from tag name and attributes
+	 * Resolve the icon for an internal link's path (from a wiki-link or a Markdown link),
+	 * relative to the note containing it.
+	 * Results are cached until the next refresh, since the same links are
+	 * re-matched as the viewport scrolls.
 	 */
-	private createSvgElement(svg: SVGSVGElement, tagName: string, attrs: Record<string, unknown>): void {
-		if (!tagName || !attrs) return;
-		
-		if (tagName === "path") {
-			const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
-			const dValue = attrs.d;
-			if (typeof dValue === "string") {
-				path.setAttribute("d", dValue);
-			}
-			const fillValue = attrs.fill;
-			if (typeof fillValue === "string") {
-				path.setAttribute("fill", fillValue);
-			}
-			svg.appendChild(path);
-		} else if (tagName === "circle") {
-			const circle = document.createElementNS("http://www.w3.org/2000/svg", "circle");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					circle.setAttribute(key, String(value));
+	resolveInternalLinkIcon(linkText: string, sourcePath: string): ResolvedLinkIcon | null {
+		// The same link text can resolve differently from different notes
+		const cacheKey = `${sourcePath}\n${linkText}`;
+		const cached = this.linkIconCache.get(cacheKey);
+		if (cached !== undefined) {
+			return cached;
+		}
+
+		let resolved: ResolvedLinkIcon | null = null;
+		const { file, subpath } = this.resolveLinkTarget(linkText, sourcePath);
+		if (file) {
+			const iconMappings = this.findIconsForFile(file);
+			const marker = this.getSubpathMarker(subpath);
+			resolved = iconMappings.length > 0 || marker ? { mappings: iconMappings, ...(marker ? { marker } : {}) } : null;
+		} else if (this.isUnresolvedLink(linkText, sourcePath)) {
+			const iconMapping = this.getUnresolvedMapping();
+			resolved = iconMapping ? { mappings: [iconMapping], extraClass: "link-icon-unresolved" } : null;
+		}
+
+		this.linkIconCache.set(cacheKey, resolved);
+		return resolved;
+	}
+
+	/**
+	 * Create a CodeMirror extension for link icons.
+	 * Only the visible part of the document is matched, and after edits only the
+	 * changed lines are re-matched; cursor moves don't trigger any matching.
+	 */
+	createLinkIconExtension() {
+		const plugin = this;
+
+		const decorator = new MatchDecorator({
+			regexp: createLinkRegex(),
+			decorate(add, from, to, match, view) {
+				const link = parseLinkMatch(match, from, view.state.doc.sliceString(from - 1, from));
+				if (!link) {
+					return;
 				}
-			});
-			svg.appendChild(circle);
-		} else if (tagName === "line") {
-			const line = document.createElementNS("http://www.w3.org/2000/svg", "line");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					line.setAttribute(key, String(value));
+
+				// Embeds are marked on their rendered content instead, see processEmbedsInElement
+				if (link.type === "internal" && link.embed) {
+					return;
 				}
-			});
-			svg.appendChild(line);
-		} else if (tagName === "polyline") {
-			const polyline = document.createElementNS("http://www.w3.org/2000/svg", "polyline");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					polyline.setAttribute(key, String(value));
+				// Link-like text in code, math, comments and frontmatter isn't a link
+				if (isInNonLinkSyntax(view.state, from)) {
+					return;
 				}
-			});
-			svg.appendChild(polyline);
-		} else if (tagName === "rect") {
-			const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					rect.setAttribute(key, String(value));
+
+				let resolved: ResolvedLinkIcon | null = null;
+				if (link.type === "internal") {
+					// Resolve relative to the file open in this editor, like Obsidian does on click
+					const sourcePath = view.state.field(editorInfoField, false)?.file?.path || "";
+					resolved = plugin.resolveInternalLinkIcon(link.linkText, sourcePath);
+				} else if (plugin.settings.showExternalIcons) {
+					const iconMapping = plugin.findIconForUrl(link.url);
+					resolved = iconMapping ? { mappings: [iconMapping], extraClass: "link-icon-external" } : null;
 				}
-			});
-			svg.appendChild(rect);
-		} else {
-			// Generic element
-			const element = document.createElementNS("http://www.w3.org/2000/svg", tagName);
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					element.setAttribute(key, String(value));
+				if (!resolved) {
+					return;
 				}
-			});
-			svg.appendChild(element);
-		}
-	}
 
-	/**
-	 * Create a default file icon SVG
-	 */
-	private createDefaultIcon(): SVGSVGElement {
-		const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
-		svg.setAttribute("width", this.settings.iconSize.toString());
-		svg.setAttribute("height", this.settings.iconSize.toString());
-		svg.setAttribute("viewBox", "0 0 24 24");
-		svg.setAttribute("fill", "none");
-		svg.setAttribute("stroke", this.settings.iconColor);
-		svg.setAttribute("stroke-width", "2");
-		svg.setAttribute("stroke-linecap", "round");
-		svg.setAttribute("stroke-linejoin", "round");
-		
-		const path1 = document.createElementNS("http://www.w3.org/2000/svg", "path");
-		path1.setAttribute("d", "M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z");
-		svg.appendChild(path1);
-		
-		const path2 = document.createElementNS("http://www.w3.org/2000/svg", "path");
-		path2.setAttribute("d", "M14 2v6h6");
-		svg.appendChild(path2);
-		
-		return svg;
+				// One widget per stacked icon, added in display order at the same position
+				for (const mapping of resolved.mappings) {
+					const widget = new LinkIconWidget(
+						mapping.icon,
+						mapping.color || plugin.settings.iconColor,
+						mapping.size || plugin.settings.iconSize,
+						resolved.extraClass,
+						pickIconStyle(mapping)
+					);
+					if (plugin.settings.iconPosition === "before") {
+						add(from, from, Decoration.widget({ widget, side: -1 }));
+					} else {
+						add(link.to, link.to, Decoration.widget({ widget, side: 1 }));
+					}
+				}
+				if (resolved.marker) {
+					const widget = new LinkIconWidget(
+						resolved.marker,
+						plugin.settings.iconColor,
+						plugin.settings.iconSize,
+						"link-icon-subpath-marker"
+					);
+					if (plugin.settings.iconPosition === "before") {
+						add(from, from, Decoration.widget({ widget, side: -1 }));
+					} else {
+						add(link.to, link.to, Decoration.widget({ widget, side: 1 }));
+					}
+				}
+			}
+		});
+
+		return ViewPlugin.fromClass(class {
+			decorations: DecorationSet;
+
+			constructor(view: EditorView) {
+				this.decorations = decorator.createDeco(view);
+			}
+
+			update(update: ViewUpdate) {
+				// Settings or vault changed, or code blocks, math or comments opened or closed
+				// elsewhere: rebuild the visible decorations from scratch
+				const refresh = update.transactions.some(tr =>
+					tr.effects.some(effect => effect.is(refreshLinkIconsEffect))
+				) || changesSyntaxContext(update);
+				if (refresh) {
+					this.decorations = decorator.createDeco(update.view);
+				} else {
+					this.decorations = decorator.updateDeco(update, this.decorations);
+				}
+			}
+		}, {
+			decorations: (value) => value.decorations
+		});
 	}
 
 	/**
-	 * Convert kebab-case or snake_case to PascalCase
+	 * Create an icon element: a Lucide or custom SVG icon, an emoji or a text badge,
+	 * drawn with the mapping's style where it has one
 	 */
-	toPascalCase(str: string): string {
-		return str
-			.split(/[-_]/)
-			.map(word => word.charAt(0).toUpperCase() + word.slice(1))
-			.join("");
+	createIconElement(iconName: string, color?: string, style: IconStyle = {}): HTMLElement {
+		const iconContainer = document.createElement("span");
+		iconContainer.addClass("link-icon");
+		iconContainer.addClass(this.settings.iconPosition === "before" ? "link-icon-before" : "link-icon-after");
+		iconContainer.appendChild(renderIcon(iconName, {
+			size: style.size || this.settings.iconSize,
+			color: color || this.settings.iconColor,
+			background: style.backgroundColor,
+			strokeWidth: style.strokeWidth,
+			fill: style.fill,
+		}));
+		applyIconStyle(iconContainer, style);
+		return iconContainer;
 	}
 }
 
+/**
+ * The style fields of a mapping, without its icon, color and match type
+ */
+function pickIconStyle(mapping: FolderIconMapping): IconStyle {
+	const { icon: _icon, color: _color, matchType: _matchType, ...style } = mapping;
+	return style;
+}
+
 /**
  * CodeMirror widget for displaying link icons
  */
@@ -876,140 +1463,43 @@ class LinkIconWidget extends WidgetType {
 	constructor(
 		private iconName: string,
 		private color: string,
-		private size: number
+		private size: number,
+		private extraClass?: string,
+		private style: IconStyle = {}
 	) {
 		super();
 	}
 
+	// Custom icons can change on disk under the same name
+	private customIconVersion = customIcons.version;
+
 	/**
-	 * Get a Lucide icon by PascalCase name with type safety
+	 * Reuse the existing DOM when an identical icon is redrawn
 	 */
-	private getLucideIcon(pascalKey: string): unknown {
-		// Use Record type for safer access than 'as any'
-		const icons = LucideIcons as Record<string, unknown>;
-		return icons[pascalKey] || null;
+	eq(other: LinkIconWidget): boolean {
+		return other.iconName === this.iconName &&
+			other.customIconVersion === this.customIconVersion &&
+			other.color === this.color &&
+			other.size === this.size &&
+			other.extraClass === this.extraClass &&
+			JSON.stringify(other.style) === JSON.stringify(this.style);
 	}
 
 	toDOM() {
 		const iconContainer = document.createElement("span");
 		iconContainer.addClass("link-icon");
 		iconContainer.addClass("link-icon-widget");
-
-		try {
-			// Get the icon from Lucide (convert kebab-case to PascalCase)
-			const pascalKey = this.toPascalCase(this.iconName);
-			const Icon = this.getLucideIcon(pascalKey);
-			
-			if (!Icon) {
-				return iconContainer;
-			}
-
-			// Create SVG element
-			const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
-			svg.setAttribute("width", this.size.toString());
-			svg.setAttribute("height", this.size.toString());
-			svg.setAttribute("viewBox", "0 0 24 24");
-			svg.setAttribute("fill", "none");
-			svg.setAttribute("stroke", this.color);
-			svg.setAttribute("stroke-width", "2");
-			svg.setAttribute("stroke-linecap", "round");
-			svg.setAttribute("stroke-linejoin", "round");
-			
-			// Parse Lucide icon structure
-			if (Array.isArray(Icon) && Icon.length === 3 && Icon[0] === "svg" && typeof Icon[1] === "object" && Array.isArray(Icon[2])) {
-				const children = Icon[2];
-				children.forEach((child: unknown) => {
-					if (Array.isArray(child) && child.length >= 2) {
-						const tagName = child[0];
-						const attrs = child[1];
-						if (typeof tagName === "string" && attrs && typeof attrs === "object") {
-							this.createSvgElement(svg, tagName, attrs as Record<string, unknown>);
-						}
-					}
-				});
-			}
-			
-			if (svg.children.length > 0) {
-				iconContainer.appendChild(svg);
-			}
-		} catch (error) {
-			// Fail silently
+		if (this.extraClass) {
+			iconContainer.addClass(this.extraClass);
 		}
-
+		iconContainer.appendChild(renderIcon(this.iconName, {
+			size: this.size,
+			color: this.color,
+			background: this.style.backgroundColor,
+			strokeWidth: this.style.strokeWidth,
+			fill: this.style.fill,
+		}));
+		applyIconStyle(iconContainer, this.style);
 		return iconContainer;
 	}
-
-	private toPascalCase(str: string): string {
-		return str
-			.split("-")
-			.map(word => word.charAt(0).toUpperCase() + word.slice(1))
-			.join("");
-	}
-
-	private createSvgElement(svg: SVGSVGElement, tagName: string, attrs: Record<string, unknown>): void {
-		if (!tagName || !attrs) return;
-		
-		if (tagName === "path") {
-			const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
-			const dValue = attrs.d;
-			if (typeof dValue === "string") {
-				path.setAttribute("d", dValue);
-			}
-			const fillValue = attrs.fill;
-			if (typeof fillValue === "string") {
-				path.setAttribute("fill", fillValue);
-			}
-			const strokeValue = attrs.stroke;
-			if (typeof strokeValue === "string") {
-				path.setAttribute("stroke", strokeValue);
-			}
-			svg.appendChild(path);
-		} else if (tagName === "circle") {
-			const circle = document.createElementNS("http://www.w3.org/2000/svg", "circle");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					circle.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(circle);
-		} else if (tagName === "line") {
-			const line = document.createElementNS("http://www.w3.org/2000/svg", "line");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					line.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(line);
-		} else if (tagName === "polyline") {
-			const polyline = document.createElementNS("http://www.w3.org/2000/svg", "polyline");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					polyline.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(polyline);
-		} else if (tagName === "rect") {
-			const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					rect.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(rect);
-		} else {
-			// Generic element
-			const element = document.createElementNS("http://www.w3.org/2000/svg", tagName);
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					element.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(element);
-		}
-	}
 }
@@ -0,0 +1,92 @@
+export const EMOJI_PREFIX = "emoji:";
+export const TEXT_PREFIX = "text:";
+export const MAX_TEXT_BADGE_LENGTH = 12;
+
+// A single emoji, possibly with modifiers/ZWJ sequences (used to accept bare emoji, e.g. from frontmatter)
+const EMOJI_REGEX = /^(?:\p{Extended_Pictographic}|\p{Regional_Indicator})(?:[\u{FE0F}\u{200D}\u{1F3FB}-\u{1F3FF}]|\p{Extended_Pictographic}|\p{Regional_Indicator})*$/u;
+
+/**
+ * Whether an icon name is an emoji: "emoji:🧪", or a bare emoji such as "🧪"
+ */
+export function isEmojiIconName(iconName: string): boolean {
+	return iconName.startsWith(EMOJI_PREFIX) || EMOJI_REGEX.test(iconName.trim());
+}
+
+/**
+ * Whether an icon name is a text badge ("text:RFC")
+ */
+export function isTextIconName(iconName: string): boolean {
+	return iconName.startsWith(TEXT_PREFIX);
+}
+
+/**
+ * Whether an icon name is drawn as text (emoji or text badge) rather than as an SVG
+ */
+export function isBadgeIconName(iconName: string): boolean {
+	return isEmojiIconName(iconName) || isTextIconName(iconName);
+}
+
+/**
+ * The emoji or text shown for a badge icon name
+ */
+export function getBadgeText(iconName: string): string {
+	if (iconName.startsWith(EMOJI_PREFIX)) {
+		return iconName.slice(EMOJI_PREFIX.length);
+	}
+	if (isTextIconName(iconName)) {
+		return iconName.slice(TEXT_PREFIX.length).slice(0, MAX_TEXT_BADGE_LENGTH);
+	}
+	return iconName.trim();
+}
+
+/**
+ * Create the element for an emoji or text badge, sized to match SVG icons of `size` pixels.
+ * Text badges use `color` for the text and `background` for the pill behind it.
+ */
+export function createBadgeElement(iconName: string, size: number, color: string, background?: string): HTMLElement {
+	const badge = document.createElement("span");
+	badge.textContent = getBadgeText(iconName);
+
+	if (isTextIconName(iconName)) {
+		badge.addClass("link-icon-text-badge");
+		badge.style.fontSize = `${Math.max(8, Math.round(size * 0.65))}px`;
+		badge.style.color = color;
+		if (background) {
+			badge.style.backgroundColor = background;
+		}
+	} else {
+		badge.addClass("link-icon-emoji");
+		badge.style.fontSize = `${Math.round(size * 0.9)}px`;
+		badge.style.lineHeight = `${size}px`;
+	}
+
+	return badge;
+}
+
+/**
+ * Emoji offered in the icon picker, with search keywords
+ */
+export const EMOJI_CHOICES: Array<[string, string]> = [
+	["📁", "folder directory"], ["📂", "open folder"], ["🗂️", "dividers index"], ["📄", "page document"],
+	["📝", "memo note write"], ["📓", "notebook journal"], ["📔", "notebook decorative"], ["📒", "ledger"],
+	["📚", "books library"], ["📖", "open book read"], ["🔖", "bookmark"], ["🏷️", "label tag"],
+	["📌", "pushpin pin"], ["📍", "round pushpin location"], ["📎", "paperclip attachment"], ["🗃️", "card file box archive"],
+	["🗄️", "file cabinet archive"], ["🗑️", "wastebasket trash"], ["📅", "calendar date"], ["🗓️", "spiral calendar schedule"],
+	["⏰", "alarm clock time"], ["⏳", "hourglass waiting"], ["✅", "check done"], ["☑️", "ballot box check"],
+	["❌", "cross no"], ["⚠️", "warning"], ["❗", "exclamation important"], ["❓", "question"],
+	["💡", "idea light bulb"], ["🔥", "fire hot"], ["⭐", "star favorite"], ["🌟", "glowing star"],
+	["🚀", "rocket launch project"], ["🎯", "target goal"], ["🏁", "finish flag"], ["🚩", "flag"],
+	["🧪", "test tube experiment"], ["🔬", "microscope research"], ["🧬", "dna science"], ["⚗️", "alembic chemistry"],
+	["🔧", "wrench tool"], ["🔨", "hammer build"], ["⚙️", "gear settings"], ["🛠️", "tools"],
+	["💻", "laptop computer code"], ["🖥️", "desktop computer"], ["⌨️", "keyboard"], ["🐛", "bug"],
+	["🔒", "lock private"], ["🔑", "key"], ["🛡️", "shield security"], ["📊", "bar chart stats"],
+	["📈", "chart up growth"], ["📉", "chart down"], ["💰", "money bag"], ["💵", "dollar money"],
+	["🧾", "receipt invoice"], ["🏦", "bank finance"], ["👤", "person user"], ["👥", "people team"],
+	["🤝", "handshake meeting"], ["💬", "speech chat"], ["📞", "phone call"], ["✉️", "envelope mail"],
+	["📧", "email"], ["📣", "megaphone announcement"], ["🏠", "house home"], ["🏢", "office building work"],
+	["🏫", "school"], ["🎓", "graduation education"], ["✈️", "airplane travel"], ["🗺️", "map"],
+	["🌍", "globe world"], ["🎨", "art palette design"], ["🎵", "music note"], ["🎬", "clapper movie"],
+	["📷", "camera photo"], ["🎮", "game"], ["🍳", "cooking recipe"], ["🏋️", "weight lifting fitness"],
+	["❤️", "heart love"], ["🌱", "seedling growth"], ["🌳", "tree"], ["☀️", "sun"],
+	["🌙", "moon night"], ["⚡", "lightning fast"], ["🧠", "brain think"], ["👀", "eyes review"],
+];
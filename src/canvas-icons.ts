@@ -0,0 +1,121 @@
+import { TFile } from "obsidian";
+import LinkIconPlugin from "../main";
+
+// Set on a file card's element once badged, to the path its badge was resolved for
+const BADGED_ATTRIBUTE = "data-link-icon-path";
+
+// Canvas internals aren't part of the public typings
+interface CanvasNodeLike {
+	nodeEl: HTMLElement;
+	contentEl?: HTMLElement;
+	file?: TFile; // File cards
+	text?: string; // Text cards
+}
+
+interface CanvasViewLike {
+	file: TFile | null;
+	containerEl: HTMLElement;
+	canvas?: { nodes: Map<string, CanvasNodeLike> };
+}
+
+/**
+ * Icons in Canvas views: links inside text cards (and inside notes shown on file cards)
+ * get link icons, and file cards get their file's icons as a badge in the corner
+ */
+export class CanvasIcons {
+	private plugin: LinkIconPlugin;
+	private observer: MutationObserver;
+	private timeout: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(plugin: LinkIconPlugin) {
+		this.plugin = plugin;
+		this.observer = new MutationObserver((mutations) => {
+			// Cards being added, edited or re-rendered; our own icons being added doesn't count
+			const changed = mutations.some(mutation =>
+				Array.from(mutation.addedNodes).some(node => node instanceof HTMLElement && !node.hasClass("link-icon"))
+			);
+			if (changed) {
+				this.scheduleDecorate();
+			}
+		});
+	}
+
+	/**
+	 * Rebuild the icons of every open canvas
+	 */
+	refresh(): void {
+		this.getCanvasViews().forEach((view) => {
+			this.plugin.clearExistingIcons(view.containerEl);
+			view.containerEl.querySelectorAll(`[${BADGED_ATTRIBUTE}]`).forEach(el => el.removeAttribute(BADGED_ATTRIBUTE));
+		});
+		this.decorate();
+	}
+
+	/**
+	 * Add missing icons to every open canvas and watch them for edits
+	 */
+	decorate(): void {
+		this.observer.disconnect();
+		this.getCanvasViews().forEach((view) => {
+			const canvasPath = view.file ? view.file.path : "";
+			view.canvas?.nodes.forEach((node) => {
+				const contentEl = node.contentEl || node.nodeEl.querySelector<HTMLElement>(".canvas-node-content");
+				if (node.file instanceof TFile) {
+					this.updateBadge(node.nodeEl, node.file);
+					// Notes shown on a file card resolve their links relative to themselves
+					if (contentEl) {
+						this.plugin.processLinksInElement(contentEl, node.file.path);
+					}
+				} else if (contentEl && node.text !== undefined) {
+					this.plugin.processLinksInElement(contentEl, canvasPath);
+				}
+			});
+			this.observer.observe(view.containerEl, { childList: true, subtree: true });
+		});
+	}
+
+	destroy(): void {
+		this.observer.disconnect();
+		if (this.timeout) {
+			clearTimeout(this.timeout);
+			this.timeout = null;
+		}
+		this.getCanvasViews().forEach((view) => {
+			this.plugin.clearExistingIcons(view.containerEl);
+			view.containerEl.querySelectorAll(`[${BADGED_ATTRIBUTE}]`).forEach(el => el.removeAttribute(BADGED_ATTRIBUTE));
+		});
+	}
+
+	private scheduleDecorate(): void {
+		if (this.timeout) {
+			clearTimeout(this.timeout);
+		}
+		this.timeout = setTimeout(() => {
+			this.timeout = null;
+			this.decorate();
+		}, 300);
+	}
+
+	/**
+	 * Show a file card's icons in its top corner
+	 */
+	private updateBadge(nodeEl: HTMLElement, file: TFile): void {
+		if (nodeEl.getAttribute(BADGED_ATTRIBUTE) === file.path) {
+			return;
+		}
+		nodeEl.querySelectorAll(":scope > .link-icon-canvas-badge").forEach(badge => badge.remove());
+
+		const mappings = this.plugin.findIconsForFile(file);
+		if (mappings.length > 0) {
+			const badge = nodeEl.createDiv("link-icon link-icon-canvas-badge");
+			mappings.forEach((mapping) => {
+				badge.appendChild(this.plugin.createIconElement(mapping.icon, mapping.color || this.plugin.settings.iconColor, mapping));
+			});
+		}
+		nodeEl.setAttribute(BADGED_ATTRIBUTE, file.path);
+	}
+
+	private getCanvasViews(): CanvasViewLike[] {
+		return this.plugin.app.workspace.getLeavesOfType("canvas").map(leaf => leaf.view as unknown as CanvasViewLike);
+	}
+}
@@ -0,0 +1,161 @@
+import { TFile, Vault, normalizePath } from "obsidian";
+
+export const CUSTOM_ICON_PREFIX = "custom:";
+
+// Elements that can be part of a static icon; anything else (script, foreignObject, image, animation...) is dropped
+const ALLOWED_ELEMENTS = new Set([
+	"svg", "g", "path", "circle", "ellipse", "line", "polyline", "polygon", "rect",
+	"defs", "clippath", "mask", "lineargradient", "radialgradient", "stop", "use", "symbol", "title", "desc",
+]);
+// Paint values that are kept as-is when recoloring
+const KEPT_PAINT_VALUES = new Set(["none", "currentcolor", "transparent", "inherit"]);
+
+/**
+ * Whether an icon name refers to a custom SVG icon rather than a Lucide icon
+ */
+export function isCustomIconName(iconName: string): boolean {
+	return iconName.startsWith(CUSTOM_ICON_PREFIX);
+}
+
+/**
+ * Custom SVG icons loaded from a vault folder, sanitized and kept as templates
+ */
+export class CustomIconStore {
+	private icons: Map<string, SVGSVGElement> = new Map(); // full name ("custom:...") -> sanitized template
+	// Bumped on every reload so cached renders of a changed icon aren't reused
+	version: number = 0;
+
+	/**
+	 * (Re)load every .svg file in folderPath and its subfolders. An empty path clears the store.
+	 * Returns the paths of files that couldn't be read or aren't valid SVG.
+	 */
+	async load(vault: Vault, folderPath: string): Promise<string[]> {
+		const icons: Map<string, SVGSVGElement> = new Map();
+		const failed: string[] = [];
+		const folder = folderPath.trim() ? normalizePath(folderPath.trim()) : "";
+
+		if (folder) {
+			const files = vault.getFiles().filter(file => isInFolder(file, folder) && file.extension.toLowerCase() === "svg");
+			for (const file of files) {
+				try {
+					const svg = sanitizeSvg(await vault.cachedRead(file));
+					if (svg) {
+						icons.set(CUSTOM_ICON_PREFIX + iconNameForFile(file, folder), svg);
+					} else {
+						failed.push(file.path);
+					}
+				} catch (e) {
+					failed.push(file.path);
+				}
+			}
+		}
+
+		this.icons = icons;
+		this.version++;
+		return failed;
+	}
+
+	has(iconName: string): boolean {
+		return this.icons.has(iconName);
+	}
+
+	/**
+	 * Full names ("custom:...") of all loaded icons, sorted
+	 */
+	names(): string[] {
+		return Array.from(this.icons.keys()).sort();
+	}
+
+	/**
+	 * Create a sized copy of a custom icon drawn in the given color
+	 */
+	createSvg(iconName: string, size: number, color: string): SVGSVGElement | null {
+		const template = this.icons.get(iconName);
+		if (!template) {
+			return null;
+		}
+		const svg = template.cloneNode(true) as SVGSVGElement;
+		svg.setAttribute("width", size.toString());
+		svg.setAttribute("height", size.toString());
+		svg.style.color = color;
+		return svg;
+	}
+}
+
+export const customIcons = new CustomIconStore();
+
+/**
+ * Whether a file lies inside folderPath (at any depth)
+ */
+export function isInFolder(file: { path: string }, folderPath: string): boolean {
+	return file.path.startsWith(`${folderPath}/`);
+}
+
+/**
+ * Icon name for an SVG file: its path inside the icon folder, without extension,
+ * lowercased with spaces turned into dashes ("Logos/Acme Corp.svg" -> "logos/acme-corp")
+ */
+function iconNameForFile(file: TFile, folderPath: string): string {
+	return file.path
+		.slice(folderPath.length + 1, -(file.extension.length + 1))
+		.trim()
+		.toLowerCase()
+		.replace(/\s+/g, "-");
+}
+
+/**
+ * Parse SVG markup and strip everything that isn't static vector content:
+ * disallowed elements, event handlers, external references and inline styles.
+ * Paint colors become currentColor so the icon takes the mapping color.
+ */
+export function sanitizeSvg(markup: string): SVGSVGElement | null {
+	const parsed = new DOMParser().parseFromString(markup, "image/svg+xml");
+	const root = parsed.documentElement;
+	if (!root || root.nodeName.toLowerCase() !== "svg" || parsed.getElementsByTagName("parsererror").length > 0) {
+		return null;
+	}
+
+	sanitizeElement(root);
+
+	// Icons without a viewBox can't be scaled; derive one from width/height when possible
+	if (!root.getAttribute("viewBox")) {
+		const width = parseFloat(root.getAttribute("width") || "");
+		const height = parseFloat(root.getAttribute("height") || "");
+		root.setAttribute("viewBox", width > 0 && height > 0 ? `0 0 ${width} ${height}` : "0 0 24 24");
+	}
+	// Unpainted shapes default to black fill; make them follow the mapping color instead
+	if (!root.getAttribute("fill")) {
+		root.setAttribute("fill", "currentColor");
+	}
+	root.removeAttribute("width");
+	root.removeAttribute("height");
+
+	return document.importNode(root, true) as unknown as SVGSVGElement;
+}
+
+function sanitizeElement(element: Element): void {
+	Array.from(element.children).forEach((child) => {
+		if (!ALLOWED_ELEMENTS.has(child.nodeName.toLowerCase())) {
+			child.remove();
+		} else {
+			sanitizeElement(child);
+		}
+	});
+
+	Array.from(element.attributes).forEach((attr) => {
+		const name = attr.name.toLowerCase();
+		const value = attr.value.trim();
+
+		if (name.startsWith("on") || name === "style" || name === "class") {
+			element.removeAttribute(attr.name);
+		} else if ((name === "href" || name === "xlink:href") && !value.startsWith("#")) {
+			// Only references to elements inside the icon itself
+			element.removeAttribute(attr.name);
+		} else if ((name === "fill" || name === "stroke") && !KEPT_PAINT_VALUES.has(value.toLowerCase()) && !value.startsWith("url(#")) {
+			element.setAttribute(attr.name, "currentColor");
+		} else if (/url\(\s*['"]?(?!#)/i.test(value)) {
+			// External resources in presentation attributes
+			element.removeAttribute(attr.name);
+		}
+	});
+}
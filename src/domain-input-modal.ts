@@ -0,0 +1,68 @@
+import { Modal, App, Setting } from "obsidian";
+
+export class DomainInputModal extends Modal {
+	private domain: string = "";
+	private onConfirm: (domain: string) => void;
+
+	constructor(app: App, onConfirm: (domain: string) => void) {
+		super(app);
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Add domain mapping" });
+
+		new Setting(contentEl)
+			.setName("Domain or URL prefix")
+			.setDesc("Matches the domain and its subdomains. Use * as a wildcard (*.atlassian.net) or add a path to narrow it down (github.com/my-org).")
+			.addText((text) => {
+				text
+					.setPlaceholder("github.com")
+					.onChange((value) => {
+						this.domain = value.trim();
+					});
+				text.inputEl.addEventListener("keydown", (e: KeyboardEvent) => {
+					if (e.key === "Enter") {
+						e.preventDefault();
+						this.confirm();
+					}
+				});
+				setTimeout(() => text.inputEl.focus(), 100);
+			});
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Cancel")
+					.onClick(() => {
+						this.close();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Next")
+					.setCta()
+					.onClick(() => {
+						this.confirm();
+					})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private confirm(): void {
+		// Store domains without protocol or trailing slash so keys stay comparable
+		const domain = this.domain.toLowerCase().replace(/^[a-z]+:\/\//, "").replace(/\/+$/, "");
+		if (!domain) {
+			return;
+		}
+		this.close();
+		this.onConfirm(domain);
+	}
+}
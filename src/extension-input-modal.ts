@@ -0,0 +1,84 @@
+import { App, FuzzySuggestModal, FuzzyMatch } from "obsidian";
+
+export class ExtensionInputModal extends FuzzySuggestModal<string> {
+	private extensionCounts: Map<string, number>;
+	private onSelect: (extension: string) => void;
+
+	constructor(app: App, onSelect: (extension: string) => void) {
+		super(app);
+		this.onSelect = onSelect;
+		this.extensionCounts = this.collectVaultExtensions();
+		this.setPlaceholder("Type a file extension (e.g. pdf)");
+	}
+
+	/**
+	 * Collect every file extension used in the vault, with usage counts
+	 */
+	private collectVaultExtensions(): Map<string, number> {
+		const counts = new Map<string, number>();
+		this.app.vault.getFiles().forEach((file) => {
+			const extension = normalizeExtension(file.extension);
+			if (extension) {
+				counts.set(extension, (counts.get(extension) || 0) + 1);
+			}
+		});
+		return counts;
+	}
+
+	getItems(): string[] {
+		const items = Array.from(this.extensionCounts.keys()).sort();
+
+		// Allow mapping an extension that isn't in the vault yet
+		const typed = normalizeExtension(this.inputEl.value);
+		if (typed && !this.extensionCounts.has(typed)) {
+			items.unshift(typed);
+		}
+		return items;
+	}
+
+	getItemText(item: string): string {
+		return `.${item}`;
+	}
+
+	onChooseItem(item: string, evt: MouseEvent | KeyboardEvent): void {
+		this.onSelect(item);
+	}
+
+	renderSuggestion(item: FuzzyMatch<string>, el: HTMLElement): void {
+		const extension = item.item;
+		el.createEl("div", { text: `.${extension}` });
+		const count = this.extensionCounts.get(extension);
+		if (count) {
+			el.createEl("small", { text: `${count} ${count === 1 ? "file" : "files"}` });
+		} else {
+			el.createEl("small", { text: "New extension" });
+		}
+	}
+}
+
+/**
+ * Normalize an extension for use as a mapping key: no leading dot, lowercase
+ */
+export function normalizeExtension(extension: string): string {
+	return extension.trim().replace(/^\.+/, "").toLowerCase();
+}
+
+/**
+ * Extension keys a file name can match, most specific first.
+ * "Drawing.excalidraw.md" yields ["excalidraw.md", "excalidraw", "md"].
+ */
+export function getFileExtensions(fileName: string): string[] {
+	const parts = fileName.toLowerCase().split(".");
+	if (parts.length < 2) {
+		return [];
+	}
+
+	const extension = parts[parts.length - 1];
+	if (parts.length < 3 || !parts[parts.length - 2]) {
+		return [extension];
+	}
+
+	// Plugin formats stored as Markdown (e.g. .excalidraw.md) also match their inner extension
+	const inner = parts[parts.length - 2];
+	return [`${inner}.${extension}`, inner, extension];
+}
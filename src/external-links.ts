@@ -0,0 +1,53 @@
+// [label](https://...) or [label](<https://...>), optionally with a title. Group 1: label, group 2: URL
+export const MARKDOWN_EXTERNAL_LINK_SOURCE = String.raw`\[([^\]\n]*)\]\(\s*<?((?:https?:\/\/|mailto:)[^\s)>]+)>?(?:\s+"[^"\n]*")?\s*\)`;
+// Bare URLs and <autolinks>
+export const BARE_URL_SOURCE = String.raw`(?:https?:\/\/|mailto:)[^\s<>()[\]"'\x60]+`;
+// Punctuation that usually ends the sentence rather than the URL
+const TRAILING_PUNCTUATION = /[.,;:!?*_~]+$/;
+
+/**
+ * Strip sentence punctuation that a bare URL match picked up at its end
+ */
+export function trimBareUrl(url: string): string {
+	return url.replace(TRAILING_PUNCTUATION, "");
+}
+
+/**
+ * Score how well a domain rule matches a URL. 0 means no match; higher is more specific.
+ * Rules are a domain (matching it and its subdomains), optionally with `*` wildcards
+ * (e.g. *.atlassian.net) and an optional path prefix (e.g. github.com/my-org).
+ */
+export function matchDomainRule(rule: string, url: URL): number {
+	const normalized = rule.trim().toLowerCase()
+		.replace(/^[a-z]+:\/\//, "")
+		.replace(/^www\./, "")
+		.replace(/\/+$/, "");
+	if (!normalized) {
+		return 0;
+	}
+
+	const slashIndex = normalized.indexOf("/");
+	const hostRule = slashIndex === -1 ? normalized : normalized.slice(0, slashIndex);
+	const pathRule = slashIndex === -1 ? "" : normalized.slice(slashIndex);
+	const host = url.hostname.toLowerCase().replace(/^www\./, "");
+
+	let hostMatches: boolean;
+	if (hostRule.includes("*")) {
+		const pattern = hostRule.replace(/[.+^${}()|[\]\\?]/g, "\\$&").replace(/\*/g, "[^/]*");
+		hostMatches = new RegExp(`^${pattern}$`).test(host);
+	} else {
+		hostMatches = host === hostRule || host.endsWith(`.${hostRule}`);
+	}
+	if (!hostMatches) {
+		return 0;
+	}
+
+	if (pathRule) {
+		const path = url.pathname.toLowerCase();
+		if (path !== pathRule && !path.startsWith(`${pathRule}/`)) {
+			return 0;
+		}
+	}
+
+	return normalized.length;
+}
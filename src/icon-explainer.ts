@@ -0,0 +1,291 @@
+import { TFile, getAllTags } from "obsidian";
+import LinkIconPlugin from "../main";
+import { FolderIconMapping, IconSource, ICON_SOURCE_LABELS } from "./settings";
+import { MappingTable } from "./settings-transfer";
+import { normalizeTag } from "./tag-input-modal";
+import { getFileExtensions, normalizeExtension } from "./extension-input-modal";
+import { matchDomainRule } from "./external-links";
+import { orderedEntries, folderRuleMatches } from "./rule-priority";
+import { compilePattern } from "./mapping-patterns";
+import { splitSubpath, isBlockSubpath } from "./link-matching";
+
+/**
+ * One rule that was considered for a link
+ */
+export interface RuleCheck {
+	group: string; // Kind of rule, e.g. "Folder rules"
+	label: string; // The rule as shown in settings
+	mapping: FolderIconMapping | null; // Null for rules that have no icon set
+	matched: boolean;
+	detail: string; // Why the rule did or didn't match
+	winner: boolean; // The link shows this rule's icon
+	table?: MappingTable; // Settings table holding the rule, for rules that can be shown there
+	key?: string;
+}
+
+/**
+ * Everything that went into choosing a link's icons
+ */
+export interface IconExplanation {
+	linkText: string;
+	target: string; // Resolved file path or URL, or a description of what the link points to
+	folderChain: string[]; // Folders checked for folder rules, most specific first ("" is the vault root)
+	checks: RuleCheck[];
+	result: FolderIconMapping[]; // Icons the link shows
+	notes: string[]; // Settings that affected the outcome
+}
+
+/**
+ * Explain the icons of an internal link, resolved relative to the note containing it
+ */
+export function explainInternalLink(plugin: LinkIconPlugin, linkText: string, sourcePath: string): IconExplanation {
+	const { file, subpath } = plugin.resolveLinkTarget(linkText, sourcePath);
+	if (file) {
+		const explanation = explainFile(plugin, linkText, file);
+		if (subpath) {
+			explanation.target += ` (${isBlockSubpath(subpath) ? "block" : "heading"} ${subpath})`;
+			const marker = plugin.getSubpathMarker(subpath);
+			if (marker) {
+				explanation.result.push({ icon: marker });
+				explanation.notes.push(`The "${marker}" marker shows that the link points to a ${isBlockSubpath(subpath) ? "block" : "heading"}.`);
+			}
+		}
+		return explanation;
+	}
+
+	const explanation: IconExplanation = { linkText, target: "", folderChain: [], checks: [], result: [], notes: [] };
+	if (!plugin.isUnresolvedLink(linkText, sourcePath)) {
+		explanation.target = "Not a note";
+		explanation.notes.push("Links that don't point to a file get no icon.");
+		return explanation;
+	}
+
+	explanation.target = `${splitSubpath(linkText).path} (note doesn't exist)`;
+	const mapping = plugin.getUnresolvedMapping();
+	explanation.checks.push({
+		group: "Unresolved links",
+		label: "Unresolved link icon",
+		mapping: plugin.settings.unresolvedIcon ? { icon: plugin.settings.unresolvedIcon } : null,
+		matched: mapping !== null,
+		detail: plugin.settings.showUnresolvedIcon ? "Applies to links to missing notes" : "Turned off in settings",
+		winner: mapping !== null,
+	});
+	explanation.result = mapping ? [mapping] : [];
+	return explanation;
+}
+
+/**
+ * Explain the icon of an external (http, https or mailto) link
+ */
+export function explainExternalLink(plugin: LinkIconPlugin, url: string): IconExplanation {
+	const { settings } = plugin;
+	const result = plugin.findIconForUrl(url);
+	const explanation: IconExplanation = { linkText: url, target: url, folderChain: [], checks: [], result: result ? [result] : [], notes: [] };
+	if (!settings.showExternalIcons) {
+		explanation.notes.push("Icons for external links are turned off.");
+		return explanation;
+	}
+
+	if (/^mailto:/i.test(url)) {
+		explanation.checks.push({
+			group: "External links",
+			label: "Email link icon",
+			mapping: settings.mailtoIcon ? { icon: settings.mailtoIcon } : null,
+			matched: true,
+			detail: "Applies to mailto: links",
+			winner: result !== null,
+		});
+		return explanation;
+	}
+
+	let parsedUrl: URL;
+	try {
+		parsedUrl = new URL(url);
+	} catch (e) {
+		explanation.notes.push("The URL couldn't be parsed.");
+		return explanation;
+	}
+
+	// The longest matching domain rule wins
+	for (const [rule, mapping] of Object.entries(settings.domainIconMap)) {
+		const score = matchDomainRule(rule, parsedUrl);
+		explanation.checks.push({
+			group: "Domain rules",
+			label: rule,
+			mapping,
+			matched: score > 0,
+			detail: score > 0 ? `Matches ${parsedUrl.hostname}` : "Different domain or path",
+			winner: mapping === result,
+			table: "domainIconMap",
+			key: rule,
+		});
+	}
+	explanation.checks.push({
+		group: "External links",
+		label: "Web link icon",
+		mapping: settings.externalIcon ? { icon: settings.externalIcon } : null,
+		matched: true,
+		detail: "Used when no domain rule matches",
+		winner: result !== null && !Object.values(settings.domainIconMap).includes(result),
+	});
+	return explanation;
+}
+
+/**
+ * Explain the icons of a link to an existing file, listing every rule of every kind
+ */
+function explainFile(plugin: LinkIconPlugin, linkText: string, file: TFile): IconExplanation {
+	const { settings } = plugin;
+	const folderPath = file.parent ? file.parent.path : "";
+	const override = plugin.findIconForFrontmatter(file);
+	const matches = plugin.findIconMatches(file, override);
+	const isWinner = (source: IconSource, mapping: FolderIconMapping) =>
+		matches.some(match => match.source === source && match.mapping === mapping);
+
+	const checks: RuleCheck[] = [];
+
+	// Frontmatter
+	const frontmatterMatch = matches.find(match => match.source === "frontmatter");
+	checks.push({
+		group: ICON_SOURCE_LABELS.frontmatter,
+		label: settings.frontmatterIconProperty || "(no property set)",
+		mapping: override && override.icon ? { icon: override.icon, ...(override.color ? { color: override.color } : {}) } : null,
+		matched: !!(override && override.icon),
+		detail: override && override.icon ? `Set to "${override.icon}" in the note` : "Not set in the note",
+		winner: frontmatterMatch !== undefined,
+	});
+
+	// Folder rules, in priority order
+	for (const [key, mapping] of orderedEntries(settings.folderIconMap, settings.folderRuleOrder)) {
+		const matched = folderRuleMatches(key, mapping, folderPath, file.path);
+		checks.push({
+			group: ICON_SOURCE_LABELS.folder,
+			label: describeFolderRule(key, mapping),
+			mapping,
+			matched,
+			detail: describeFolderMatch(key, mapping, folderPath, matched),
+			winner: isWinner("folder", mapping),
+			table: "folderIconMap",
+			key,
+		});
+	}
+
+	// Tag rules
+	const cache = plugin.app.metadataCache.getFileCache(file);
+	const fileTags = (cache ? getAllTags(cache) || [] : []).map(tag => normalizeTag(tag));
+	for (const [tag, mapping] of Object.entries(settings.tagIconMap)) {
+		const normalized = normalizeTag(tag);
+		const matchingTag = fileTags.find(fileTag => fileTag === normalized || fileTag.startsWith(`${normalized}/`));
+		checks.push({
+			group: ICON_SOURCE_LABELS.tag,
+			label: `#${tag}`,
+			mapping,
+			matched: matchingTag !== undefined,
+			detail: matchingTag !== undefined ? `The note has #${matchingTag}` : "The note doesn't have this tag",
+			winner: isWinner("tag", mapping),
+			table: "tagIconMap",
+			key: tag,
+		});
+	}
+
+	// File type rules, listed only when they apply since there are many
+	const extensions = getFileExtensions(file.name);
+	const extensionWinner = plugin.findIconForExtension(file);
+	const extensionChecks = Object.entries(settings.extensionIconMap)
+		.filter(([extension]) => extensions.includes(normalizeExtension(extension)))
+		.map(([extension, mapping]): RuleCheck => ({
+			group: ICON_SOURCE_LABELS.extension,
+			label: `.${extension}`,
+			mapping,
+			matched: true,
+			detail: mapping === extensionWinner ? "Matches the file name" : "A more specific file type rule matches",
+			winner: isWinner("extension", mapping),
+			table: "extensionIconMap",
+			key: extension,
+		}));
+	checks.push(...(extensionChecks.length > 0 ? extensionChecks : [{
+		group: ICON_SOURCE_LABELS.extension,
+		label: extensions.length > 0 ? `.${extensions[extensions.length - 1]}` : "(no extension)",
+		mapping: null,
+		matched: false,
+		detail: "No rule for this file type",
+		winner: false,
+	}]));
+
+	return {
+		linkText,
+		target: file.path,
+		folderChain: getFolderChain(folderPath),
+		checks,
+		result: plugin.findIconsForFile(file),
+		notes: describeSettings(plugin, override),
+	};
+}
+
+/**
+ * A folder and its parents, most specific first, ending with the vault root ("")
+ */
+function getFolderChain(folderPath: string): string[] {
+	const parts = folderPath.split("/").filter(p => p !== "");
+	const chain: string[] = [];
+	for (let i = parts.length; i > 0; i--) {
+		chain.push(parts.slice(0, i).join("/"));
+	}
+	chain.push("");
+	return chain;
+}
+
+function describeFolderRule(key: string, mapping: FolderIconMapping): string {
+	if (mapping.matchType === "regex") return `/${key}/`;
+	if (mapping.matchType === "glob") return key;
+	return key === "" ? "Root folder" : key;
+}
+
+/**
+ * Why a folder rule does or doesn't apply to a file in folderPath
+ */
+function describeFolderMatch(key: string, mapping: FolderIconMapping, folderPath: string, matched: boolean): string {
+	if (mapping.matchType === "regex") {
+		if (!compilePattern(key, "regex")) return "Invalid regular expression";
+		return matched ? "Matches the file path" : "Doesn't match the file path";
+	}
+	if (mapping.matchType === "glob") {
+		const regex = compilePattern(key, "glob");
+		const level = getFolderChain(folderPath).find(folder => regex?.test(folder));
+		if (level === undefined) return "Doesn't match the folder or its parents";
+		return level === folderPath ? "Matches the file's folder" : `Matches parent folder ${level || "/"}`;
+	}
+	if (!matched) return "The file isn't in this folder";
+	if (key === folderPath) return "The file's own folder";
+	return key === "" ? "Applies to the whole vault" : "Parent folder";
+}
+
+/**
+ * Settings that decide between matching rules, in plain words
+ */
+function describeSettings(plugin: LinkIconPlugin, override: Partial<FolderIconMapping> | null): string[] {
+	const { settings } = plugin;
+	const notes: string[] = [];
+	if (settings.maxIconsPerLink <= 1) {
+		notes.push("The frontmatter icon beats every rule.");
+		notes.push(settings.rulePrecedence === "folder"
+			? "Folder rules are checked before tag rules."
+			: "Tag rules are checked before folder rules.");
+		notes.push(settings.extensionRulesFirst
+			? "File type rules beat tag and folder rules."
+			: "File type rules apply only when no tag or folder rule matches.");
+	} else {
+		const order = settings.iconStackOrder.map(source => ICON_SOURCE_LABELS[source]).join(", ");
+		notes.push(`Up to ${settings.maxIconsPerLink} icons are stacked in this order: ${order}.`);
+		if (settings.dedupeStackedIcons) {
+			notes.push("Icons already in the stack are skipped.");
+		}
+	}
+	notes.push(settings.folderRulePriority === "order"
+		? "The first folder rule in the list that applies wins."
+		: "The most specific folder rule wins: regex rules, then the file's folder, then its parents.");
+	if (override && !override.icon && override.color) {
+		notes.push(`The note's frontmatter recolors the icons to ${override.color}.`);
+	}
+	return notes;
+}
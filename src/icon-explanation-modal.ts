@@ -0,0 +1,96 @@
+import { Modal, App, Setting } from "obsidian";
+import LinkIconPlugin from "../main";
+import { IconExplanation, RuleCheck } from "./icon-explainer";
+
+/**
+ * Show why a link got its icons: what it points to, the folders walked for
+ * folder rules, every rule that was considered and which one won
+ */
+export class IconExplanationModal extends Modal {
+	private plugin: LinkIconPlugin;
+	private explanation: IconExplanation;
+
+	constructor(app: App, plugin: LinkIconPlugin, explanation: IconExplanation) {
+		super(app);
+		this.plugin = plugin;
+		this.explanation = explanation;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const { explanation } = this;
+		contentEl.empty();
+		contentEl.addClass("link-icon-explanation");
+
+		contentEl.createEl("h2", { text: "Why this icon?" });
+
+		const summary = contentEl.createDiv("link-icon-explanation-summary");
+		this.addSummaryRow(summary, "Link", explanation.linkText);
+		this.addSummaryRow(summary, "Target", explanation.target);
+		const iconsEl = this.addSummaryRow(summary, "Icons", explanation.result.length > 0 ? "" : "None");
+		explanation.result.forEach((mapping) => {
+			iconsEl.appendChild(this.plugin.createIconElement(mapping.icon, mapping.color || this.plugin.settings.iconColor, mapping));
+			iconsEl.createSpan({ text: ` ${mapping.icon} `, cls: "icon-name-text" });
+		});
+		if (explanation.folderChain.length > 0) {
+			this.addSummaryRow(summary, "Folders checked", explanation.folderChain.map(folder => folder || "/").join(" → "));
+		}
+
+		// Rules grouped by kind, in the order they were listed
+		let group = "";
+		explanation.checks.forEach((check) => {
+			if (check.group !== group) {
+				group = check.group;
+				contentEl.createEl("h3", { text: group });
+			}
+			this.renderCheck(contentEl, check);
+		});
+
+		if (explanation.notes.length > 0) {
+			const notesEl = contentEl.createEl("ul", { cls: "link-icon-explanation-notes" });
+			explanation.notes.forEach(note => notesEl.createEl("li", { text: note }));
+		}
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private addSummaryRow(container: HTMLElement, label: string, value: string): HTMLElement {
+		const row = container.createDiv("link-icon-explanation-row");
+		row.createSpan({ text: label, cls: "link-icon-explanation-label" });
+		return row.createSpan({ text: value, cls: "link-icon-explanation-value" });
+	}
+
+	private renderCheck(container: HTMLElement, check: RuleCheck): void {
+		const status = check.winner ? "Used" : check.matched ? "Matches, not used" : "No match";
+		const setting = new Setting(container)
+			.setName(check.label)
+			.setDesc(`${status} · ${check.detail}`);
+		setting.settingEl.addClass("link-icon-explanation-rule");
+		if (check.winner) {
+			setting.settingEl.addClass("is-winner");
+		} else if (!check.matched) {
+			setting.settingEl.addClass("is-unmatched");
+		}
+
+		if (check.mapping) {
+			const iconColor = check.mapping.color || this.plugin.settings.iconColor;
+			setting.controlEl.appendChild(this.plugin.createIconElement(check.mapping.icon, iconColor, check.mapping));
+		}
+
+		const { table, key } = check;
+		if (table !== undefined && key !== undefined) {
+			setting.addExtraButton((button) =>
+				button
+					.setIcon("settings")
+					.setTooltip("Show in settings")
+					.onClick(() => {
+						this.close();
+						this.plugin.openSettingsAt(table, key);
+					})
+			);
+		}
+	}
+}
@@ -1,16 +1,74 @@
-import { Modal, App, Setting } from "obsidian";
-import * as LucideIcons from "lucide";
+import { Modal, App, Setting, setIcon, debounce } from "obsidian";
+import LinkIconPlugin from "../main";
+import { ICON_CATEGORIES, isInCategory, searchIcons } from "./icon-search";
+import { customIcons, isCustomIconName, CUSTOM_ICON_PREFIX } from "./custom-icons";
+import { renderIcon, getLucideIconNames } from "./icon-renderer";
+import {
+	EMOJI_CHOICES,
+	EMOJI_PREFIX,
+	TEXT_PREFIX,
+	MAX_TEXT_BADGE_LENGTH,
+	isEmojiIconName,
+	createBadgeElement,
+} from "./badges";
+
+type PickerTab = "icons" | "emoji" | "text";
+
+const MAX_RECENT_ICONS = 24;
+// Sidebar entries besides the Lucide categories
+const ALL_ICONS = "all";
+const FAVORITES = "favorites";
+const RECENT = "recent";
+const CUSTOM = "custom";
+
+// Virtualized grid geometry, matching the styles of .icon-picker-row and .icon-picker-section
+const CELL_WIDTH = 88; // Minimum item width plus gap
+const GRID_GAP = 8;
+const ROW_HEIGHT = 88; // Item height plus gap
+const HEADER_HEIGHT = 28;
+const GRID_PADDING = 16;
+const OVERSCAN_ROWS = 3; // Rows rendered above and below the visible area
+const SEARCH_DELAY = 150;
+
+interface GridEntry {
+	iconName: string;
+	label?: string;
+}
+
+interface GridRow {
+	top: number;
+	height: number;
+	header?: string;
+	start: number; // Index range into the results (icon rows only)
+	end: number;
+}
 
 export class IconPickerModal extends Modal {
+	private plugin: LinkIconPlugin;
 	private selectedIcon: string | null = null;
 	private onSelect: (iconName: string) => void;
 	private searchInput: HTMLInputElement;
 	private iconGrid: HTMLElement;
 	private allIcons: string[] = [];
-	private iconMap: Map<string, string> = new Map(); // kebab-case -> PascalCase
+	private activeTab: PickerTab = "icons";
+	private searchContainer: HTMLElement;
+	private tabButtons: Map<PickerTab, HTMLElement> = new Map();
+	private sidebar: HTMLElement;
+	private activeCategory: string = ALL_ICONS;
+	// Virtualized grid state: every result in display order, laid out in rows of `columns`
+	private sections: Array<[string, GridEntry[]]> = [];
+	private emptyText: string = "";
+	private results: GridEntry[] = [];
+	private rows: GridRow[] = [];
+	private columns: number = 1;
+	private selectedIndex: number = -1;
+	private gridSpacer: HTMLElement | null = null;
+	private renderedRows: Map<number, HTMLElement> = new Map();
+	private resizeObserver: ResizeObserver | null = null;
 
-	constructor(app: App, onSelect: (iconName: string) => void) {
+	constructor(app: App, plugin: LinkIconPlugin, onSelect: (iconName: string) => void) {
 		super(app);
+		this.plugin = plugin;
 		this.onSelect = onSelect;
 		this.getAllAvailableIcons();
 	}
@@ -19,22 +77,48 @@ export class IconPickerModal extends Modal {
 		const { contentEl } = this;
 		contentEl.empty();
 
-		contentEl.createEl("h2", { text: "Select Lucide Icon" });
+		contentEl.createEl("h2", { text: "Select Icon" });
+
+		// Tabs: SVG icons, emoji, text badges
+		const tabBar = contentEl.createDiv("icon-picker-tabs");
+		([["icons", "Icons"], ["emoji", "Emoji"], ["text", "Text badge"]] as Array<[PickerTab, string]>).forEach(([tab, label]) => {
+			const tabButton = tabBar.createEl("button", { text: label, cls: "icon-picker-tab" });
+			tabButton.addEventListener("click", () => this.switchTab(tab));
+			this.tabButtons.set(tab, tabButton);
+		});
 
 		// Search input
-		const searchContainer = contentEl.createDiv("icon-picker-search");
-		this.searchInput = searchContainer.createEl("input", {
+		this.searchContainer = contentEl.createDiv("icon-picker-search");
+		this.searchInput = this.searchContainer.createEl("input", {
 			type: "text",
 			placeholder: "Search icons...",
 			cls: "icon-picker-search-input",
 		});
-		this.searchInput.addEventListener("input", () => {
-			this.filterIcons(this.searchInput.value);
+		const debouncedFilter = debounce(() => this.filterIcons(this.searchInput.value), SEARCH_DELAY, true);
+		this.searchInput.addEventListener("input", () => debouncedFilter());
+
+		// Category sidebar and icon grid; only the rows in view are rendered
+		const body = contentEl.createDiv("icon-picker-body");
+		this.sidebar = body.createDiv("icon-picker-sidebar");
+		this.iconGrid = body.createDiv("icon-picker-grid");
+		this.iconGrid.addEventListener("scroll", () => this.renderVisibleRows());
+		this.resizeObserver = new ResizeObserver(() => {
+			if (this.sections.length > 0 && this.getColumnCount() !== this.columns) {
+				this.layoutGrid(false);
+			}
 		});
+		this.resizeObserver.observe(this.iconGrid);
+		this.switchTab("icons");
 
-		// Icon grid
-		this.iconGrid = contentEl.createDiv("icon-picker-grid");
-		this.renderIcons(this.allIcons);
+		// Keyboard navigation across the whole result set; Esc closes the modal
+		this.scope.register([], "ArrowDown", () => this.moveSelection(this.columns));
+		this.scope.register([], "ArrowUp", () => this.moveSelection(-this.columns));
+		this.scope.register([], "ArrowRight", () => this.moveSelection(1, true));
+		this.scope.register([], "ArrowLeft", () => this.moveSelection(-1, true));
+		this.scope.register([], "Enter", () => {
+			void this.chooseSelectedIcon();
+			return false;
+		});
 
 		// Buttons
 		const buttonContainer = contentEl.createDiv("icon-picker-buttons");
@@ -50,12 +134,7 @@ export class IconPickerModal extends Modal {
 				button
 					.setButtonText("Select")
 					.setCta()
-					.onClick(() => {
-						if (this.selectedIcon) {
-							this.onSelect(this.selectedIcon);
-							this.close();
-						}
-					})
+					.onClick(() => this.chooseSelectedIcon())
 			);
 
 		// Focus search input
@@ -66,356 +145,356 @@ export class IconPickerModal extends Modal {
 
 	onClose() {
 		const { contentEl } = this;
+		this.resizeObserver?.disconnect();
+		this.resizeObserver = null;
 		contentEl.empty();
 	}
 
+	private async chooseSelectedIcon(): Promise<void> {
+		const iconName = this.selectedIcon;
+		if (!iconName) {
+			return;
+		}
+		this.onSelect(iconName);
+		this.close();
+		await this.addRecentIcon(iconName);
+	}
+
+	private getAllAvailableIcons(): void {
+		// Custom icons from the vault are listed first
+		this.allIcons = [...customIcons.names(), ...getLucideIconNames()];
+	}
+
+	private switchTab(tab: PickerTab): void {
+		this.activeTab = tab;
+		this.tabButtons.forEach((button, key) => button.toggleClass("is-active", key === tab));
+
+		this.sidebar.toggle(tab === "icons");
+		if (tab === "icons") {
+			this.renderSidebar();
+		}
+
+		if (tab === "text") {
+			this.searchContainer.hide();
+			this.sections = [];
+			this.results = [];
+			this.renderTextBadgeForm();
+			return;
+		}
+
+		this.searchContainer.show();
+		this.searchInput.placeholder = tab === "emoji" ? "Search emoji, or type/paste any emoji..." : "Search icons...";
+		this.filterIcons(this.searchInput.value);
+		this.searchInput.focus();
+	}
+
+	private filterIcons(searchTerm: string): void {
+		if (this.activeTab === "emoji") {
+			this.renderEmoji(searchTerm);
+			return;
+		}
+		const icons = this.getCategoryIcons(this.activeCategory);
+		const toEntries = (iconNames: string[]) => iconNames.map(iconName => ({ iconName }));
+		const emptyText = this.activeCategory === FAVORITES ? "No favorites yet. Star an icon to pin it here." : "No icons found";
+		if (searchTerm.trim()) {
+			this.renderIcons([["", toEntries(searchIcons(icons, searchTerm))]], emptyText);
+		} else if (this.activeCategory === ALL_ICONS) {
+			// Opening view: favorites and recent icons first
+			this.renderIcons([
+				["Favorites", toEntries(this.plugin.settings.favoriteIcons)],
+				["Recent", toEntries(this.plugin.settings.recentIcons)],
+				["Custom", toEntries(customIcons.names())],
+				["Lucide", toEntries(icons.filter(iconName => !isCustomIconName(iconName)))],
+			], emptyText);
+		} else {
+			this.renderIcons([["", toEntries(icons)]], emptyText);
+		}
+	}
+
 	/**
-	 * Get a Lucide icon by key with type safety
+	 * Icons listed for a sidebar entry
 	 */
-	private getLucideIcon(key: string): unknown {
-		// Use Record type for safer access than 'as any'
-		const icons = LucideIcons as Record<string, unknown>;
-		return icons[key] || null;
+	private getCategoryIcons(categoryName: string): string[] {
+		if (categoryName === FAVORITES) {
+			return this.plugin.settings.favoriteIcons;
+		}
+		if (categoryName === RECENT) {
+			return this.plugin.settings.recentIcons;
+		}
+		if (categoryName === CUSTOM) {
+			return customIcons.names();
+		}
+		const category = ICON_CATEGORIES.find(c => c.name === categoryName);
+		if (category) {
+			return this.allIcons.filter(iconName => isInCategory(iconName, category));
+		}
+		return this.allIcons;
 	}
 
-	private getAllAvailableIcons(): void {
-		// Get all exported icons from Lucide
-		// Lucide exports icons with PascalCase names
-		const iconKeys = Object.keys(LucideIcons);
-		console.log(`[IconPicker] Total Lucide exports: ${iconKeys.length}`);
-		
-		// Filter to get only icon components and exclude utility functions
-		const excludedKeys = [
-			"createElement", "icons", "Icon", "default", "lucideReactNative",
-			"toElement", "createIcons", "defaultProps", "IconNode", "IconProps"
+	private renderSidebar(): void {
+		this.sidebar.empty();
+		const entries: Array<[string, string]> = [
+			[ALL_ICONS, "All icons"],
+			[FAVORITES, "Favorites"],
+			[RECENT, "Recent"],
 		];
-		
-		
-		// Get all exports that are arrays (icon data) or have icon data
-		iconKeys.forEach(key => {
-			if (excludedKeys.includes(key)) return;
-			if (key.startsWith("_")) return;
-			
-			const icon = this.getLucideIcon(key);
-			// Icons are arrays with path data: ['path', { d: '...', ... }, ...]
-			if (Array.isArray(icon) && icon.length > 0) {
-				// Convert PascalCase to kebab-case
-				const kebabCase = key
-					.replace(/([a-z])([A-Z])/g, "$1-$2")
-					.replace(/([A-Z]+)([A-Z][a-z])/g, "$1-$2")
-					.toLowerCase();
-				
-				if (kebabCase.length > 0) {
-					this.iconMap.set(kebabCase, key);
-				}
+		if (customIcons.names().length > 0) {
+			entries.push([CUSTOM, "Custom"]);
+		}
+		ICON_CATEGORIES.forEach(category => entries.push([category.name, category.name]));
+
+		entries.forEach(([key, label]) => {
+			// Separate the built-in lists from the categories
+			if (key === ICON_CATEGORIES[0].name) {
+				this.sidebar.createDiv("icon-picker-sidebar-separator");
 			}
+			const item = this.sidebar.createDiv({ cls: "icon-picker-category", text: label });
+			item.toggleClass("is-active", key === this.activeCategory);
+			item.addEventListener("click", () => {
+				this.activeCategory = key;
+				this.renderSidebar();
+				this.filterIcons(this.searchInput.value);
+			});
 		});
-		
-		this.allIcons = Array.from(this.iconMap.keys()).sort();
 	}
 
-	private filterIcons(searchTerm: string): void {
-		const filtered = this.allIcons.filter(icon =>
-			icon.toLowerCase().includes(searchTerm.toLowerCase())
-		);
-		this.renderIcons(filtered);
+	private async toggleFavorite(iconName: string): Promise<void> {
+		const favorites = this.plugin.settings.favoriteIcons;
+		this.plugin.settings.favoriteIcons = favorites.includes(iconName)
+			? favorites.filter(name => name !== iconName)
+			: [...favorites, iconName];
+		await this.plugin.saveSettings();
 	}
 
-	private renderIcons(icons: string[]): void {
-		this.iconGrid.empty();
+	private async addRecentIcon(iconName: string): Promise<void> {
+		this.plugin.settings.recentIcons = [
+			iconName,
+			...this.plugin.settings.recentIcons.filter(name => name !== iconName),
+		].slice(0, MAX_RECENT_ICONS);
+		await this.plugin.saveSettings();
+	}
 
-		if (icons.length === 0) {
-			this.iconGrid.createEl("p", {
-				text: "No icons found",
-				cls: "icon-picker-empty",
-			});
-			return;
+	private renderEmoji(searchTerm: string): void {
+		const term = searchTerm.trim().toLowerCase();
+		const entries: GridEntry[] = [];
+
+		// Any emoji typed or pasted into the search box can be used directly
+		if (term && isEmojiIconName(term)) {
+			entries.push({ iconName: EMOJI_PREFIX + term, label: "custom" });
 		}
 
-		icons.forEach(iconName => {
-			const iconContainer = this.iconGrid.createDiv("icon-picker-item");
-			iconContainer.setAttribute("data-icon", iconName);
-			
-			if (this.selectedIcon === iconName) {
-				iconContainer.addClass("selected");
+		const matches = EMOJI_CHOICES.filter(([emoji, keywords]) => !term || keywords.includes(term) || emoji === term);
+		matches.forEach(([emoji, keywords]) => {
+			if (emoji !== term) {
+				entries.push({ iconName: EMOJI_PREFIX + emoji, label: keywords.split(" ")[0] });
 			}
+		});
 
-			// Try to render the icon
-			try {
-				// Use the stored PascalCase name
-				const pascalKey = this.iconMap.get(iconName) || this.toPascalCase(iconName);
-				const Icon = this.getLucideIcon(pascalKey);
-				
-				if (Icon) {
-					const svg = this.createIconPreview(Icon, iconName);
-					if (svg) {
-						iconContainer.appendChild(svg);
-					}
-				}
-			} catch (e) {
-				// If icon rendering fails, just show the name
+		this.renderIcons([["", entries]], "No emoji found");
+	}
+
+	private renderTextBadgeForm(): void {
+		this.iconGrid.empty();
+		const form = this.iconGrid.createDiv("icon-picker-text-badge");
+
+		const preview = form.createDiv("icon-picker-text-badge-preview");
+		const updatePreview = (text: string) => {
+			preview.empty();
+			const trimmed = text.trim();
+			this.selectedIcon = trimmed ? TEXT_PREFIX + trimmed : null;
+			if (this.selectedIcon) {
+				preview.appendChild(createBadgeElement(this.selectedIcon, 24, "var(--text-normal)", "var(--background-modifier-border)"));
 			}
+		};
 
-			// Icon name label
-			const label = iconContainer.createDiv("icon-picker-label");
-			label.textContent = iconName;
-
-			// Click handler
-			iconContainer.addEventListener("click", () => {
-				// Remove previous selection
-				this.iconGrid.querySelectorAll(".selected").forEach(el => {
-					el.removeClass("selected");
-				});
-				
-				// Select this icon
-				iconContainer.addClass("selected");
-				this.selectedIcon = iconName;
-			});
+		const input = form.createEl("input", {
+			type: "text",
+			placeholder: "Badge text (e.g. RFC, ADR)",
+			cls: "icon-picker-search-input",
+			attr: { maxlength: String(MAX_TEXT_BADGE_LENGTH) },
 		});
+		const current = this.selectedIcon && this.selectedIcon.startsWith(TEXT_PREFIX) ? this.selectedIcon.slice(TEXT_PREFIX.length) : "";
+		input.value = current;
+		input.addEventListener("input", () => updatePreview(input.value));
+		updatePreview(current);
+
+		form.createEl("p", {
+			text: "The badge background color can be set on the mapping after selecting.",
+			cls: "setting-item-description",
+		});
+		setTimeout(() => input.focus(), 50);
 	}
 
-	private createIconPreview(Icon: unknown, iconName: string): SVGElement | null {
-		try {
-			if (!Array.isArray(Icon)) {
-				return null;
-			}
-			
-			
-			// Create SVG element
-			const svg = document.createElementNS("http://www.w3.org/2000/svg", "svg");
-			svg.setAttribute("width", "24");
-			svg.setAttribute("height", "24");
-			svg.setAttribute("viewBox", "0 0 24 24");
-			svg.setAttribute("fill", "none");
-			svg.setAttribute("stroke", "currentColor");
-			svg.setAttribute("stroke-width", "2");
-			svg.setAttribute("stroke-linecap", "round");
-			svg.setAttribute("stroke-linejoin", "round");
-
-			// Lucide icon structure: ['svg', {svgAttrs}, [children]]
-			// where children is: [['path', {d: '...'}], ['path', {d: '...'}], ...]
-			if (Icon.length === 3 && Icon[0] === "svg" && typeof Icon[1] === "object" && Array.isArray(Icon[2])) {
-				// Apply SVG attributes from element 1
-				const svgAttrs = Icon[1];
-				Object.keys(svgAttrs).forEach(key => {
-					if (key !== "children") {
-						svg.setAttribute(key, svgAttrs[key]);
-					}
-				});
-				
-				// Process children array (element 2)
-				const children = Icon[2];
-				children.forEach((child: unknown) => {
-					if (Array.isArray(child) && child.length >= 2) {
-						const tagName = child[0];
-						const attrs = child[1];
-						this.createSvgElement(svg, tagName, attrs);
-					}
-				});
-			}
-			// Fallback: Try array of arrays [['path', { d: '...' }], ['path', { d: '...' }]]
-			else if (Icon.length > 0 && Array.isArray(Icon[0])) {
-				Icon.forEach((item: unknown) => {
-					if (Array.isArray(item) && item.length >= 2) {
-						const tagName = item[0];
-						const attrs = item[1];
-						this.createSvgElement(svg, tagName, attrs);
-					}
-				});
-			}
-			// Fallback: alternating tag and attrs ['path', { d: '...' }, 'path', { d: '...' }]
-			else if (Icon.length >= 2 && typeof Icon[0] === "string" && (Icon[0] === "path" || Icon[0] === "circle" || Icon[0] === "line" || Icon[0] === "polyline" || Icon[0] === "rect")) {
-				if (typeof Icon[1] === "object" && Icon[1] !== null && !Array.isArray(Icon[1])) {
-					for (let i = 0; i < Icon.length; i += 2) {
-						const tagName = Icon[i];
-						const attrs = Icon[i + 1];
-						
-						if (!tagName || !attrs || typeof attrs !== "object") continue;
-						
-						this.createSvgElement(svg, tagName, attrs);
-					}
-				}
+	/**
+	 * Show icon lists as titled sections; empty sections are skipped and an empty title renders no header
+	 */
+	private renderIcons(sections: Array<[string, GridEntry[]]>, emptyText: string): void {
+		this.sections = sections.filter(([, entries]) => entries.length > 0);
+		this.emptyText = emptyText;
+		this.layoutGrid(true);
+	}
+
+	private getColumnCount(): number {
+		return Math.max(1, Math.floor((this.iconGrid.clientWidth - GRID_PADDING + GRID_GAP) / CELL_WIDTH));
+	}
+
+	/**
+	 * Split the results into rows for the current grid width and size the scroll area to fit them all
+	 */
+	private layoutGrid(resetScroll: boolean): void {
+		this.iconGrid.empty();
+		this.renderedRows.clear();
+		this.results = [];
+		this.rows = [];
+		this.gridSpacer = null;
+
+		if (this.sections.length === 0) {
+			this.selectedIndex = -1;
+			this.iconGrid.createEl("p", { text: this.emptyText, cls: "icon-picker-empty" });
+			return;
+		}
+
+		this.columns = this.getColumnCount();
+		let top = 0;
+		this.sections.forEach(([title, entries]) => {
+			if (title && this.sections.length > 1) {
+				this.rows.push({ top, height: HEADER_HEIGHT, header: title, start: 0, end: 0 });
+				top += HEADER_HEIGHT;
 			}
-			else {
-				// Unknown structure
-				return null;
+			for (let i = 0; i < entries.length; i += this.columns) {
+				const start = this.results.length + i;
+				this.rows.push({ top, height: ROW_HEIGHT, start, end: Math.min(start + this.columns, this.results.length + entries.length) });
+				top += ROW_HEIGHT;
 			}
-			
-			return svg.children.length > 0 ? svg : null;
-		} catch (e) {
-			// Error creating icon - return null
+			this.results.push(...entries);
+		});
+
+		this.gridSpacer = this.iconGrid.createDiv("icon-picker-spacer");
+		this.gridSpacer.style.height = `${top}px`;
+		this.gridSpacer.style.setProperty("--icon-picker-columns", String(this.columns));
+
+		this.selectedIndex = this.results.findIndex(entry => entry.iconName === this.selectedIcon);
+		if (resetScroll) {
+			this.iconGrid.scrollTop = 0;
 		}
-		return null;
+		this.renderVisibleRows();
 	}
-	
-	private createSvgElement(svg: SVGSVGElement, tagName: string, attrs: Record<string, unknown>): void {
-		if (!tagName || !attrs) return;
-		
-		if (tagName === "path") {
-			const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
-			const dValue = attrs.d;
-			if (typeof dValue === "string") {
-				path.setAttribute("d", dValue);
+
+	/**
+	 * Render the rows in (or near) view and drop the ones scrolled away
+	 */
+	private renderVisibleRows(): void {
+		if (!this.gridSpacer) {
+			return;
+		}
+		const viewTop = this.iconGrid.scrollTop - OVERSCAN_ROWS * ROW_HEIGHT;
+		const viewBottom = this.iconGrid.scrollTop + (this.iconGrid.clientHeight || 400) + OVERSCAN_ROWS * ROW_HEIGHT;
+
+		const visible = new Set<number>();
+		this.rows.forEach((row, index) => {
+			if (row.top + row.height >= viewTop && row.top <= viewBottom) {
+				visible.add(index);
 			}
-			const fillValue = attrs.fill;
-			if (typeof fillValue === "string") {
-				path.setAttribute("fill", fillValue);
+		});
+
+		this.renderedRows.forEach((rowEl, index) => {
+			if (!visible.has(index)) {
+				rowEl.remove();
+				this.renderedRows.delete(index);
 			}
-			svg.appendChild(path);
-		} else if (tagName === "circle") {
-			const circle = document.createElementNS("http://www.w3.org/2000/svg", "circle");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					circle.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(circle);
-		} else if (tagName === "line") {
-			const line = document.createElementNS("http://www.w3.org/2000/svg", "line");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					line.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(line);
-		} else if (tagName === "polyline") {
-			const polyline = document.createElementNS("http://www.w3.org/2000/svg", "polyline");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					polyline.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(polyline);
-		} else if (tagName === "rect") {
-			const rect = document.createElementNS("http://www.w3.org/2000/svg", "rect");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					rect.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(rect);
-		}
-	}
-	
-	private addChildrenToSvg(svg: SVGSVGElement, children: unknown[]): void {
-		children.forEach((child: unknown) => {
-			if (!child || typeof child !== "object") return;
-			
-			const childObj = child as Record<string, unknown>;
-			const tagName = (childObj.tag || childObj.type || (childObj.$$typeof ? "react-element" : null)) as string | null;
-			const attrs = (childObj.attrs || childObj.props || childObj.attributes || {}) as Record<string, unknown>;
-			
-			if (tagName === "path" || (childObj.$$typeof && childObj.type === "path")) {
-				const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
-				const dValue = attrs.d;
-				if (typeof dValue === "string") {
-					path.setAttribute("d", dValue);
-				}
-				const fillValue = attrs.fill;
-				if (typeof fillValue === "string") {
-					path.setAttribute("fill", fillValue);
-				}
-				svg.appendChild(path);
-			} else if (tagName === "circle" || (childObj.$$typeof && childObj.type === "circle")) {
-				const circle = document.createElementNS("http://www.w3.org/2000/svg", "circle");
-				Object.keys(attrs).forEach(key => {
-					if (key !== "children") {
-						const value = attrs[key];
-						if (typeof value === "string" || typeof value === "number") {
-							circle.setAttribute(key, String(value));
-						}
-					}
-				});
-				svg.appendChild(circle);
-			} else if (tagName === "line" || (childObj.$$typeof && childObj.type === "line")) {
-				const line = document.createElementNS("http://www.w3.org/2000/svg", "line");
-				Object.keys(attrs).forEach(key => {
-					if (key !== "children") {
-						const value = attrs[key];
-						if (typeof value === "string" || typeof value === "number") {
-							line.setAttribute(key, String(value));
-						}
-					}
-				});
-				svg.appendChild(line);
-			} else if (childObj.$$typeof && childObj.type) {
-				// React element - recurse
-				if (attrs.children) {
-					const childChildren = Array.isArray(attrs.children) 
-						? attrs.children 
-						: [attrs.children];
-					this.addChildrenToSvg(svg, childChildren);
+		});
+
+		visible.forEach((index) => {
+			if (this.renderedRows.has(index) || !this.gridSpacer) {
+				return;
+			}
+			const row = this.rows[index];
+			const rowEl = this.gridSpacer.createDiv(row.header !== undefined ? "icon-picker-section" : "icon-picker-row");
+			rowEl.style.top = `${row.top}px`;
+			if (row.header !== undefined) {
+				rowEl.textContent = row.header;
+			} else {
+				for (let i = row.start; i < row.end; i++) {
+					this.renderIconItem(rowEl, this.results[i], i);
 				}
 			}
+			this.renderedRows.set(index, rowEl);
 		});
 	}
-	
-	private renderReactLikeIcon(svg: SVGSVGElement, iconData: unknown): void {
-		if (!iconData || typeof iconData !== "object") return;
-		const iconObj = iconData as Record<string, unknown>;
-		const props = iconObj.props as Record<string, unknown> | undefined;
-		if (props && props.children) {
-			const children = Array.isArray(props.children) 
-				? props.children 
-				: [props.children];
-			children.forEach((child: unknown) => {
-				if (child && typeof child === "object") {
-					const childObj = child as Record<string, unknown>;
-					if (childObj.type || childObj.tag) {
-						this.addSvgChild(svg, { 
-							tag: childObj.type || childObj.tag, 
-							attrs: (childObj.props || childObj.attrs || {}) as Record<string, unknown>
-						});
-					}
-				}
-			});
+
+	/**
+	 * Move the selection by `delta` results, scrolling it into view. Left/right only
+	 * navigate the grid once an icon is selected, so they still move the search caret before that.
+	 */
+	private moveSelection(delta: number, horizontal = false): boolean {
+		if (this.activeTab === "text" || this.results.length === 0) {
+			return true;
 		}
+		if (horizontal && this.selectedIndex < 0) {
+			return true;
+		}
+		const target = this.selectedIndex < 0 ? 0 : this.selectedIndex + delta;
+		this.setSelectedIndex(Math.max(0, Math.min(this.results.length - 1, target)), true);
+		return false;
 	}
 
-	private addSvgChild(svg: SVGSVGElement, child: unknown): void {
-		if (!child || typeof child !== "object") return;
-		
-		const childObj = child as Record<string, unknown>;
-		const tagName = (childObj.tag || childObj.type || "path") as string;
-		const attrs = (childObj.attrs || childObj.attributes || {}) as Record<string, unknown>;
-		
-		if (tagName === "path") {
-			const path = document.createElementNS("http://www.w3.org/2000/svg", "path");
-			const dValue = attrs.d;
-			if (typeof dValue === "string") {
-				path.setAttribute("d", dValue);
-			}
-			svg.appendChild(path);
-		} else if (tagName === "circle") {
-			const circle = document.createElementNS("http://www.w3.org/2000/svg", "circle");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					circle.setAttribute(key, String(value));
-				}
-			});
-			svg.appendChild(circle);
-		} else if (tagName === "line") {
-			const line = document.createElementNS("http://www.w3.org/2000/svg", "line");
-			Object.keys(attrs).forEach(key => {
-				const value = attrs[key];
-				if (typeof value === "string" || typeof value === "number") {
-					line.setAttribute(key, String(value));
+	private setSelectedIndex(index: number, scrollIntoView: boolean): void {
+		this.selectedIndex = index;
+		this.selectedIcon = this.results[index]?.iconName ?? null;
+
+		if (scrollIntoView) {
+			const row = this.rows.find(r => r.header === undefined && index >= r.start && index < r.end);
+			if (row) {
+				if (row.top < this.iconGrid.scrollTop) {
+					this.iconGrid.scrollTop = row.top;
+				} else if (row.top + row.height > this.iconGrid.scrollTop + this.iconGrid.clientHeight) {
+					this.iconGrid.scrollTop = row.top + row.height - this.iconGrid.clientHeight;
 				}
-			});
-			svg.appendChild(line);
+			}
+			this.renderVisibleRows();
 		}
+
+		this.iconGrid.querySelectorAll(".icon-picker-item.selected").forEach(el => el.removeClass("selected"));
+		this.iconGrid.querySelector(`.icon-picker-item[data-index="${index}"]`)?.addClass("selected");
 	}
 
-	private toPascalCase(str: string): string {
-		return str
-			.split(/[-_]/)
-			.map(word => word.charAt(0).toUpperCase() + word.slice(1))
-			.join("");
+	private renderIconItem(parent: HTMLElement, entry: GridEntry, index: number): void {
+		const { iconName, label } = entry;
+		const iconContainer = parent.createDiv("icon-picker-item");
+		iconContainer.setAttribute("data-icon", iconName);
+		iconContainer.setAttribute("data-index", String(index));
+		
+		if (this.selectedIndex === index) {
+			iconContainer.addClass("selected");
+		}
+
+		iconContainer.appendChild(renderIcon(iconName, { size: 24, color: "currentColor" }));
+
+		// Icon name label
+		const labelEl = iconContainer.createDiv("icon-picker-label");
+		labelEl.textContent = label !== undefined
+			? label
+			: isCustomIconName(iconName) ? iconName.slice(CUSTOM_ICON_PREFIX.length) : iconName;
+
+		// Star to add to or remove from favorites
+		const star = iconContainer.createDiv("icon-picker-favorite");
+		setIcon(star, "star");
+		star.toggleClass("is-favorite", this.plugin.settings.favoriteIcons.includes(iconName));
+		star.setAttribute("aria-label", "Toggle favorite");
+		star.addEventListener("click", async (e) => {
+			e.stopPropagation();
+			await this.toggleFavorite(iconName);
+			star.toggleClass("is-favorite", this.plugin.settings.favoriteIcons.includes(iconName));
+			if (this.activeTab === "icons" && !this.searchInput.value.trim() && (this.activeCategory === ALL_ICONS || this.activeCategory === FAVORITES)) {
+				this.filterIcons("");
+			}
+		});
+
+		// Click to select, double-click to choose right away
+		iconContainer.addEventListener("click", () => this.setSelectedIndex(index, false));
+		iconContainer.addEventListener("dblclick", () => {
+			this.setSelectedIndex(index, false);
+			void this.chooseSelectedIcon();
+		});
 	}
 }
-
@@ -0,0 +1,184 @@
+import * as LucideIcons from "lucide";
+import { customIcons, isCustomIconName } from "./custom-icons";
+import { isBadgeIconName, createBadgeElement } from "./badges";
+import { IconStyle } from "./settings";
+import { getTaggedIconNames } from "./icon-search";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+// Lucide icon data: [tag, attributes, children?]
+type IconNode = [string, Record<string, string | number>, IconNode[]?];
+
+export interface IconRenderOptions {
+	size: number;
+	color: string;
+	background?: string; // Text badge background
+	strokeWidth?: number;
+	fill?: string;
+}
+
+// Prepared SVG per Lucide icon name; copies are cloned from these
+const templates: Map<string, SVGSVGElement> = new Map();
+let lucideNames: Map<string, string> | null = null; // kebab-case -> PascalCase export
+
+/**
+ * Render any icon name: a Lucide icon, a custom SVG ("custom:..."), an emoji or a text badge.
+ * Unknown names render a visible placeholder rather than nothing.
+ */
+export function renderIcon(iconName: string, options: IconRenderOptions): HTMLElement | SVGSVGElement {
+	if (isBadgeIconName(iconName)) {
+		return createBadgeElement(iconName, options.size, options.color, options.background);
+	}
+
+	const svg = isCustomIconName(iconName)
+		? customIcons.createSvg(iconName, options.size, options.color)
+		: createLucideSvg(iconName, options.size, options.color);
+	if (!svg) {
+		return createPlaceholder(iconName, options.size, options.color);
+	}
+	if (options.strokeWidth !== undefined) {
+		svg.setAttribute("stroke-width", options.strokeWidth.toString());
+	}
+	if (options.fill) {
+		svg.setAttribute("fill", options.fill);
+	}
+	return svg;
+}
+
+/**
+ * Apply the container-level parts of a mapping's style: opacity and the badge shape behind the icon
+ */
+export function applyIconStyle(container: HTMLElement, style: IconStyle): void {
+	if (style.opacity !== undefined) {
+		container.style.opacity = style.opacity.toString();
+	}
+	if (style.badgeShape) {
+		container.addClass("link-icon-shape", `link-icon-shape-${style.badgeShape}`);
+		if (style.backgroundColor) {
+			container.style.backgroundColor = style.backgroundColor;
+		}
+	}
+}
+
+/**
+ * Kebab-case names of every Lucide icon, sorted
+ */
+export function getLucideIconNames(): string[] {
+	return Array.from(getLucideNameMap().keys()).sort();
+}
+
+function getLucideNameMap(): Map<string, string> {
+	if (!lucideNames) {
+		lucideNames = new Map();
+		const exports = LucideIcons as unknown as Record<string, unknown>;
+		// Lucide's own names, so they match its tags; export names lose the dashes
+		// around digits and single letters ("ArrowDown01" is "arrow-down-0-1")
+		for (const name of getTaggedIconNames()) {
+			const key = toPascalCase(name);
+			if (isIconNode(exports[key])) {
+				lucideNames.set(name, key);
+			}
+		}
+		// Icons without tags
+		const named = new Set(lucideNames.values());
+		for (const [key, value] of Object.entries(exports)) {
+			if (isIconNode(value) && !named.has(key)) {
+				lucideNames.set(toKebabCase(key), key);
+			}
+		}
+	}
+	return lucideNames;
+}
+
+// Icons are the exported arrays; createElement, createIcons and icons are utilities
+function isIconNode(value: unknown): value is IconNode {
+	return Array.isArray(value) && value[0] === "svg";
+}
+
+function getLucideIconNode(iconName: string): IconNode | null {
+	const exports = LucideIcons as unknown as Record<string, unknown>;
+	// Names saved before the map followed Lucide's ("bar-chart2") still resolve by export name
+	const key = getLucideNameMap().get(iconName) || toPascalCase(iconName);
+	const node = exports[key];
+	return isIconNode(node) ? node : null;
+}
+
+function createLucideSvg(iconName: string, size: number, color: string): SVGSVGElement | null {
+	let template = templates.get(iconName);
+	if (!template) {
+		const node = getLucideIconNode(iconName);
+		if (!node) {
+			return null;
+		}
+		template = buildElement(node) as SVGSVGElement;
+		templates.set(iconName, template);
+	}
+
+	const svg = template.cloneNode(true) as SVGSVGElement;
+	svg.setAttribute("width", size.toString());
+	svg.setAttribute("height", size.toString());
+	// Lucide paints with currentColor
+	svg.style.color = color;
+	return svg;
+}
+
+/**
+ * Build an SVG element from Lucide icon data, copying every attribute and child element
+ */
+function buildElement([tagName, attrs, children]: IconNode): SVGElement {
+	const element = document.createElementNS(SVG_NS, tagName);
+	for (const [name, value] of Object.entries(attrs)) {
+		if (name !== "xmlns" && (typeof value === "string" || typeof value === "number")) {
+			element.setAttribute(name, String(value));
+		}
+	}
+	(children || []).forEach((child) => {
+		if (Array.isArray(child) && typeof child[0] === "string") {
+			element.appendChild(buildElement(child));
+		}
+	});
+	return element;
+}
+
+/**
+ * Dashed square with a question mark, shown for icon names that don't exist
+ */
+function createPlaceholder(iconName: string, size: number, color: string): SVGSVGElement {
+	const svg = buildElement(["svg", {
+		width: size,
+		height: size,
+		viewBox: "0 0 24 24",
+		fill: "none",
+		stroke: "currentColor",
+		"stroke-width": 2,
+		"stroke-linecap": "round",
+		"stroke-linejoin": "round",
+	}, [
+		["rect", { x: 3, y: 3, width: 18, height: 18, rx: 2, "stroke-dasharray": "3 3" }],
+		["path", { d: "M9.5 9a2.5 2.5 0 1 1 3.5 2.3c-.6.3-1 .9-1 1.6v.1" }],
+		["path", { d: "M12 17h.01" }],
+	]]) as SVGSVGElement;
+	svg.classList.add("link-icon-placeholder");
+	svg.style.color = color;
+	const title = document.createElementNS(SVG_NS, "title");
+	title.textContent = `Unknown icon "${iconName}"`;
+	svg.prepend(title);
+	return svg;
+}
+
+/**
+ * Convert kebab-case or snake_case to PascalCase
+ */
+function toPascalCase(str: string): string {
+	return str
+		.split(/[-_]/)
+		.map(word => word.charAt(0).toUpperCase() + word.slice(1))
+		.join("");
+}
+
+function toKebabCase(str: string): string {
+	return str
+		.replace(/([a-z])([A-Z])/g, "$1-$2")
+		.replace(/([A-Z]+)([A-Z][a-z])/g, "$1-$2")
+		.toLowerCase();
+}
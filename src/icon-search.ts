@@ -0,0 +1,135 @@
+import * as lucideTags from "lucide-static/tags.json";
+
+export interface IconCategory {
+	name: string;
+	keywords: string[]; // Matched against icon name segments and Lucide tags
+}
+
+/**
+ * Categories for browsing Lucide icons. An icon belongs to every category whose
+ * keywords appear in its name (e.g. "file" in "file-text") or its Lucide tags.
+ */
+export const ICON_CATEGORIES: IconCategory[] = [
+	{ name: "Arrows", keywords: ["arrow", "chevron", "move", "corner", "redo", "undo", "refresh"] },
+	{ name: "Files & folders", keywords: ["file", "folder", "document", "archive", "clipboard", "paperclip", "attachment"] },
+	{ name: "Text & writing", keywords: ["text", "type", "pen", "pencil", "heading", "list", "quote", "note", "notebook", "book"] },
+	{ name: "Communication", keywords: ["mail", "message", "chat", "phone", "send", "inbox", "bell", "megaphone", "contact"] },
+	{ name: "People", keywords: ["user", "users", "person", "people", "contact", "account", "team"] },
+	{ name: "Time & calendar", keywords: ["calendar", "clock", "alarm", "timer", "hourglass", "date", "time", "schedule"] },
+	{ name: "Money & shopping", keywords: ["money", "wallet", "banknote", "coins", "currency", "credit", "shopping", "cart", "store", "receipt", "payment"] },
+	{ name: "Development", keywords: ["code", "terminal", "git", "bug", "database", "server", "brackets", "binary", "braces", "developer"] },
+	{ name: "Devices", keywords: ["laptop", "monitor", "smartphone", "tablet", "keyboard", "mouse", "printer", "cpu", "hard-drive", "battery", "device"] },
+	{ name: "Media", keywords: ["image", "camera", "video", "film", "music", "audio", "play", "volume", "mic", "headphones", "photo"] },
+	{ name: "Charts", keywords: ["chart", "graph", "analytics", "statistics", "trending", "diagram"] },
+	{ name: "Maps & travel", keywords: ["map", "pin", "navigation", "compass", "plane", "car", "train", "bus", "ship", "globe", "location", "travel"] },
+	{ name: "Weather & nature", keywords: ["sun", "moon", "cloud", "rain", "snow", "wind", "leaf", "tree", "flower", "weather", "nature", "plant"] },
+	{ name: "Security", keywords: ["lock", "unlock", "key", "shield", "security", "password", "fingerprint"] },
+	{ name: "Home & buildings", keywords: ["home", "house", "building", "school", "hotel", "factory", "warehouse"] },
+	{ name: "Tools", keywords: ["wrench", "hammer", "tool", "settings", "cog", "scissors", "ruler", "axe"] },
+	{ name: "Medical", keywords: ["medical", "health", "pill", "stethoscope", "syringe", "hospital", "heart-pulse"] },
+	{ name: "Food & drink", keywords: ["food", "drink", "coffee", "cup", "beer", "wine", "pizza", "apple", "utensils", "cooking"] },
+	{ name: "Shapes", keywords: ["circle", "square", "triangle", "hexagon", "octagon", "pentagon", "diamond", "shapes", "star"] },
+];
+
+const TAGS = lucideTags as unknown as Record<string, string[]>;
+
+/**
+ * Lucide's search tags for an icon ("wallet" -> ["money", "finance", ...]); empty for custom icons
+ */
+export function getIconTags(iconName: string): string[] {
+	const tags = TAGS[iconName];
+	return Array.isArray(tags) ? tags : [];
+}
+
+/**
+ * Names of every icon Lucide has tags for, in Lucide's own kebab-case ("arrow-down-0-1", "bar-chart-2")
+ */
+export function getTaggedIconNames(): string[] {
+	return Object.keys(TAGS).filter(name => Array.isArray(TAGS[name]));
+}
+
+/**
+ * Whether an icon belongs to a category, by name segment or tag
+ */
+export function isInCategory(iconName: string, category: IconCategory): boolean {
+	const segments = iconName.split("-");
+	const tags = getIconTags(iconName);
+	return category.keywords.some(keyword =>
+		iconName === keyword
+		|| (keyword.includes("-") ? iconName.startsWith(keyword) : segments.includes(keyword))
+		|| tags.includes(keyword)
+	);
+}
+
+/**
+ * How well an icon matches a search query; 0 means no match. Every word of the
+ * query has to match the name or a tag. Name matches beat tag matches, and
+ * prefix matches beat matches further inside; as a last resort the query's
+ * letters may appear in order in the name ("arwup" finds "arrow-up").
+ */
+export function scoreIcon(iconName: string, query: string): number {
+	const terms = query.toLowerCase().trim().split(/\s+/).filter(term => term.length > 0);
+	if (terms.length === 0) {
+		return 1;
+	}
+
+	const name = iconName.toLowerCase();
+	const tags = getIconTags(iconName);
+	let total = 0;
+	for (const term of terms) {
+		const score = scoreTerm(name, tags, term);
+		if (score === 0) {
+			return 0;
+		}
+		total += score;
+	}
+	// Prefer shorter names among equally good matches
+	return total - name.length / 100;
+}
+
+function scoreTerm(name: string, tags: string[], term: string): number {
+	if (name === term) return 100;
+	if (name.startsWith(term)) return 80;
+	if (name.split(/[-/:]/).some(segment => segment.startsWith(term))) return 60;
+	if (name.includes(term)) return 40;
+	if (tags.includes(term)) return 35;
+	if (tags.some(tag => tag.startsWith(term))) return 25;
+	if (tags.some(tag => tag.includes(term))) return 15;
+	return fuzzyScore(name, term);
+}
+
+/**
+ * Score for the term's letters appearing in order in the name, fewer gaps scoring higher
+ */
+function fuzzyScore(name: string, term: string): number {
+	if (term.length < 3) {
+		return 0;
+	}
+	let position = 0;
+	let gaps = 0;
+	for (const char of term) {
+		const index = name.indexOf(char, position);
+		if (index === -1) {
+			return 0;
+		}
+		if (index > position) {
+			gaps++;
+		}
+		position = index + 1;
+	}
+	return Math.max(1, 10 - gaps * 2);
+}
+
+/**
+ * Icons matching the query, best match first
+ */
+export function searchIcons(icons: string[], query: string): string[] {
+	if (!query.trim()) {
+		return icons;
+	}
+	return icons
+		.map(iconName => ({ iconName, score: scoreIcon(iconName, query) }))
+		.filter(result => result.score > 0)
+		.sort((a, b) => b.score - a.score)
+		.map(result => result.iconName);
+}
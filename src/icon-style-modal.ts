@@ -0,0 +1,148 @@
+import { Modal, App, Setting } from "obsidian";
+import LinkIconPlugin from "../main";
+import { BadgeShape, FolderIconMapping, IconStyle } from "./settings";
+
+/**
+ * Edit a mapping's optional style (size, stroke width, fill, opacity, badge shape),
+ * previewing the icon as it changes. Every change is passed to onChange right away.
+ */
+export class IconStyleModal extends Modal {
+	private plugin: LinkIconPlugin;
+	private mapping: FolderIconMapping;
+	private style: IconStyle;
+	private onChange: (style: IconStyle) => void;
+	private previewEl: HTMLElement;
+
+	constructor(app: App, plugin: LinkIconPlugin, mapping: FolderIconMapping, onChange: (style: IconStyle) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.mapping = mapping;
+		this.onChange = onChange;
+		const { size, strokeWidth, fill, opacity, badgeShape, backgroundColor } = mapping;
+		this.style = { size, strokeWidth, fill, opacity, badgeShape, backgroundColor };
+	}
+
+	onOpen() {
+		this.render();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Icon style" });
+		this.previewEl = contentEl.createDiv("link-icon-style-preview");
+		this.updatePreview();
+
+		new Setting(contentEl)
+			.setName("Size")
+			.setDesc(`Pixels. Leave empty to use the global size (${this.plugin.settings.iconSize}).`)
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder(String(this.plugin.settings.iconSize))
+					.setValue(this.style.size !== undefined ? String(this.style.size) : "")
+					.onChange((value) => {
+						const size = parseNumber(value);
+						this.update({ size: size !== undefined ? Math.min(128, Math.max(1, Math.round(size))) : undefined });
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Stroke width")
+			.setDesc("Line thickness of SVG icons. Leave empty for the icon's own (2 for Lucide).")
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setPlaceholder("2")
+					.setValue(this.style.strokeWidth !== undefined ? String(this.style.strokeWidth) : "")
+					.onChange((value) => {
+						const strokeWidth = parseNumber(value);
+						this.update({ strokeWidth: strokeWidth !== undefined && strokeWidth > 0 ? strokeWidth : undefined });
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("Fill")
+			.setDesc("Fill color for the icon's shapes, e.g. currentColor to fill with the icon color. Leave empty for outlines.")
+			.addText((text) =>
+				text
+					.setPlaceholder("none")
+					.setValue(this.style.fill || "")
+					.onChange((value) => this.update({ fill: value.trim() || undefined }))
+			);
+
+		new Setting(contentEl)
+			.setName("Opacity")
+			.addSlider((slider) =>
+				slider
+					.setLimits(0.1, 1, 0.05)
+					.setValue(this.style.opacity !== undefined ? this.style.opacity : 1)
+					.setDynamicTooltip()
+					.onChange((value) => this.update({ opacity: value < 1 ? value : undefined }))
+			);
+
+		new Setting(contentEl)
+			.setName("Badge shape")
+			.setDesc("Draw a shape behind the icon")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("", "None")
+					.addOption("circle", "Circle")
+					.addOption("square", "Rounded square")
+					.setValue(this.style.badgeShape || "")
+					.onChange((value: BadgeShape | "") => this.update({ badgeShape: value || undefined }))
+			);
+
+		new Setting(contentEl)
+			.setName("Background color")
+			.setDesc("Color of the badge shape, and of text badges")
+			.addText((text) =>
+				text
+					.setPlaceholder("var(--background-modifier-border)")
+					.setValue(this.style.backgroundColor || "")
+					.onChange((value) => this.update({ backgroundColor: value.trim() || undefined }))
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Reset")
+					.setTooltip("Clear every style option")
+					.onClick(() => {
+						this.style = {};
+						this.onChange({});
+						this.render();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Done")
+					.setCta()
+					.onClick(() => this.close())
+			);
+	}
+
+	private update(changes: IconStyle): void {
+		this.style = { ...this.style, ...changes };
+		this.updatePreview();
+		this.onChange({ ...this.style });
+	}
+
+	private updatePreview(): void {
+		this.previewEl.empty();
+		const color = this.mapping.color || this.plugin.settings.iconColor;
+		this.previewEl.appendChild(this.plugin.createIconElement(this.mapping.icon, color, this.style));
+		this.previewEl.createSpan({ text: "Example link", cls: "link-icon-style-preview-text" });
+	}
+}
+
+function parseNumber(value: string): number | undefined {
+	const parsed = parseFloat(value);
+	return value.trim() && !isNaN(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,195 @@
+import { Modal, App, Setting } from "obsidian";
+import { LinkIconSettings } from "./settings";
+import {
+	ImportMode,
+	MAPPING_TABLES,
+	MAPPING_TABLE_LABELS,
+	parseImportedSettings,
+	findConflicts,
+	applyImport,
+} from "./settings-transfer";
+
+export class ImportSettingsModal extends Modal {
+	private current: LinkIconSettings;
+	private onImport: (settings: LinkIconSettings) => void;
+	private json: string = "";
+	private mode: ImportMode = "merge";
+	private overwriteConflicts: boolean = false;
+	private includeGlobals: boolean = true;
+	private textArea: HTMLTextAreaElement;
+	private previewEl: HTMLElement;
+	private importButton: HTMLButtonElement;
+
+	constructor(app: App, current: LinkIconSettings, onImport: (settings: LinkIconSettings) => void) {
+		super(app);
+		this.current = current;
+		this.onImport = onImport;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Import Link Icon settings" });
+
+		// JSON source: pasted or loaded from a file
+		this.textArea = contentEl.createEl("textarea", {
+			cls: "link-icon-import-textarea",
+			attr: { placeholder: "Paste exported JSON here, or load a file", rows: "8" },
+		});
+		this.textArea.addEventListener("input", () => {
+			this.json = this.textArea.value;
+			this.updatePreview();
+		});
+
+		const fileInput = contentEl.createEl("input", {
+			type: "file",
+			attr: { accept: ".json,application/json", style: "display: none;" },
+		});
+		fileInput.addEventListener("change", async () => {
+			const file = fileInput.files?.[0];
+			if (!file) return;
+			this.json = await file.text();
+			this.textArea.value = this.json;
+			this.updatePreview();
+		});
+
+		new Setting(contentEl)
+			.setName("Load from file")
+			.addButton((button) =>
+				button
+					.setButtonText("Choose file…")
+					.onClick(() => fileInput.click())
+			);
+
+		new Setting(contentEl)
+			.setName("Import mode")
+			.setDesc("Merge adds imported mappings to yours. Replace swaps your mappings and settings for the imported ones.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("merge", "Merge")
+					.addOption("replace", "Replace")
+					.setValue(this.mode)
+					.onChange((value: ImportMode) => {
+						this.mode = value;
+						this.updatePreview();
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Imported mappings win conflicts")
+			.setDesc("When merging, overwrite your mapping if the import has a different one for the same key")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.overwriteConflicts)
+					.onChange((value) => {
+						this.overwriteConflicts = value;
+						this.updatePreview();
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Import general settings")
+			.setDesc("When merging, also take icon size, position, colors and other non-mapping settings from the import. Favorites and the folder rule order are extended; recent icons and the custom icon folder stay as they are.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.includeGlobals)
+					.onChange((value) => {
+						this.includeGlobals = value;
+					})
+			);
+
+		this.previewEl = contentEl.createDiv("link-icon-import-preview");
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Cancel")
+					.onClick(() => {
+						this.close();
+					})
+			)
+			.addButton((button) => {
+				this.importButton = button.buttonEl;
+				button
+					.setButtonText("Import")
+					.setCta()
+					.onClick(() => {
+						const { settings, errors } = parseImportedSettings(this.json);
+						if (!this.json.trim() || errors.length > 0) {
+							return;
+						}
+						this.onImport(applyImport(this.current, settings, this.mode, this.overwriteConflicts, this.includeGlobals));
+						this.close();
+					});
+			});
+
+		this.updatePreview();
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Show validation errors, or a summary of what will be imported and any conflicts
+	 */
+	private updatePreview(): void {
+		this.previewEl.empty();
+
+		if (!this.json.trim()) {
+			this.importButton.disabled = true;
+			return;
+		}
+
+		const { settings, errors } = parseImportedSettings(this.json);
+		this.importButton.disabled = errors.length > 0;
+
+		if (errors.length > 0) {
+			this.previewEl.createEl("p", { text: "The imported data can't be used:", cls: "link-icon-error" });
+			const list = this.previewEl.createEl("ul", { cls: "link-icon-error" });
+			errors.forEach(error => list.createEl("li", { text: error }));
+			return;
+		}
+
+		const counts = MAPPING_TABLES
+			.filter(table => settings[table])
+			.map(table => `${Object.keys(settings[table] || {}).length} ${MAPPING_TABLE_LABELS[table].toLowerCase()}`);
+		this.previewEl.createEl("p", {
+			text: counts.length > 0 ? `Mappings to import: ${counts.join(", ")}` : "No mappings in this import",
+		});
+
+		if (this.mode === "replace") {
+			this.previewEl.createEl("p", {
+				text: "Your current mappings in the imported tables will be replaced.",
+				cls: "setting-item-description",
+			});
+			return;
+		}
+
+		const conflicts = findConflicts(this.current, settings);
+		if (conflicts.length === 0) {
+			this.previewEl.createEl("p", { text: "No conflicts with your current mappings.", cls: "setting-item-description" });
+			return;
+		}
+
+		this.previewEl.createEl("p", {
+			text: `${conflicts.length} conflicting ${conflicts.length === 1 ? "mapping" : "mappings"} (${this.overwriteConflicts ? "imported wins" : "yours is kept"}):`,
+		});
+		const table = this.previewEl.createEl("table", { cls: "link-icon-import-conflicts" });
+		const header = table.createEl("tr");
+		["Type", "Key", "Current", "Imported"].forEach(text => header.createEl("th", { text }));
+		conflicts.forEach((conflict) => {
+			const row = table.createEl("tr");
+			row.createEl("td", { text: MAPPING_TABLE_LABELS[conflict.table] });
+			row.createEl("td", { text: conflict.key === "" ? "(root)" : conflict.key });
+			row.createEl("td", { text: describeMapping(conflict.existing.icon, conflict.existing.color) });
+			row.createEl("td", { text: describeMapping(conflict.imported.icon, conflict.imported.color) });
+		});
+	}
+}
+
+function describeMapping(icon: string, color?: string): string {
+	return color ? `${icon} (${color})` : icon;
+}
@@ -0,0 +1,102 @@
+import { MARKDOWN_EXTERNAL_LINK_SOURCE, BARE_URL_SOURCE, trimBareUrl } from "./external-links";
+
+// [label](Folder/Note.md) or [label](<Note with spaces.md>), optionally with a title.
+// Group 1: label, group 2: angle-bracket destination, group 3: plain destination
+const MARKDOWN_INTERNAL_LINK_SOURCE = String.raw`\[([^\]\n]*)\]\(\s*(?:<([^>\n]+)>|([^\s()<>]+))(?:\s+"[^"\n]*")?\s*\)`;
+// Destinations with a scheme (obsidian://, file:, ftp://...) aren't notes
+const URI_SCHEME = /^[a-z][a-z0-9+.-]*:/i;
+
+/**
+ * A link found in Markdown source
+ */
+export type SourceLink =
+	| { type: "internal"; linkText: string; embed: boolean; from: number; to: number }
+	| { type: "external"; url: string; from: number; to: number };
+
+/**
+ * Regex for every link kind that gets an icon in the editor: wiki-links [[link]] /
+ * [[link|alias]] (group 1), Markdown links to URLs (groups 2-3), Markdown links to
+ * notes (groups 4-6) and bare URLs (group 7). They're matched in one pass so a URL
+ * inside a Markdown link isn't matched twice.
+ */
+export function createLinkRegex(): RegExp {
+	return new RegExp(
+		`\\[\\[([^\\]]+)\\]\\]|${MARKDOWN_EXTERNAL_LINK_SOURCE}|${MARKDOWN_INTERNAL_LINK_SOURCE}|(${BARE_URL_SOURCE})`,
+		"gi"
+	);
+}
+
+/**
+ * Interpret one match of createLinkRegex. `before` is the character preceding the match:
+ * "!" marks wiki embeds ![[...]], and image embeds ![alt](url) aren't links.
+ * Returns null for matches that aren't links.
+ */
+export function parseLinkMatch(match: RegExpExecArray, from: number, before: string): SourceLink | null {
+	const to = from + match[0].length;
+	if (match[1] !== undefined) {
+		// Link part only, ignoring the alias
+		return { type: "internal", linkText: match[1].split("|")[0], embed: before === "!", from, to };
+	}
+	if (match[3] !== undefined) {
+		return before === "!" ? null : { type: "external", url: match[3], from, to };
+	}
+	if (match[4] !== undefined) {
+		const destination = match[5] !== undefined ? match[5] : match[6];
+		if (URI_SCHEME.test(destination)) {
+			return null;
+		}
+		// ![alt](image.png) embeds a vault file like ![[image.png]]
+		return { type: "internal", linkText: decodeLinkPath(destination), embed: before === "!", from, to };
+	}
+	const url = trimBareUrl(match[7]);
+	return { type: "external", url, from, to: from + url.length };
+}
+
+/**
+ * The link in a line of Markdown that contains the given offset, if any
+ */
+export function findLinkAt(text: string, offset: number): SourceLink | null {
+	const regex = createLinkRegex();
+	let match: RegExpExecArray | null;
+	while ((match = regex.exec(text)) !== null) {
+		const link = parseLinkMatch(match, match.index, text.charAt(match.index - 1));
+		if (link && link.from <= offset && offset <= link.to) {
+			return link;
+		}
+		if (match.index > offset) {
+			break;
+		}
+	}
+	return null;
+}
+
+/**
+ * Decode %20-style escapes in a Markdown link destination, keeping it as-is if malformed
+ */
+export function decodeLinkPath(destination: string): string {
+	try {
+		return decodeURIComponent(destination.trim());
+	} catch (e) {
+		return destination.trim();
+	}
+}
+
+/**
+ * Split link text into the linked path and its heading or block subpath:
+ * "Note#Section" -> "Note" + "#Section", "Note#^id" and "Note^id" -> "Note" + the block id,
+ * "#Section" -> "" (the same note) + "#Section"
+ */
+export function splitSubpath(linkText: string): { path: string; subpath: string } {
+	const index = linkText.search(/[#^]/);
+	if (index === -1) {
+		return { path: linkText.trim(), subpath: "" };
+	}
+	return { path: linkText.slice(0, index).trim(), subpath: linkText.slice(index).trim() };
+}
+
+/**
+ * Whether a subpath from splitSubpath points to a block rather than a heading
+ */
+export function isBlockSubpath(subpath: string): boolean {
+	return subpath.startsWith("^") || subpath.startsWith("#^");
+}
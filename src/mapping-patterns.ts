@@ -0,0 +1,97 @@
+import { App, TFile } from "obsidian";
+
+export type MappingMatchType = "folder" | "glob" | "regex";
+
+// Compiled patterns keyed by "<type>:<pattern>"; null marks an invalid pattern
+const compiledPatterns: Map<string, RegExp | null> = new Map();
+
+/**
+ * Convert a folder glob into an anchored regular expression.
+ * `*` matches within one folder name, `?` matches one character
+ * and a `**` segment matches any number of folders (including none).
+ */
+export function globToRegExp(glob: string): RegExp {
+	const segments = glob.split("/").filter(s => s !== "");
+	if (segments.length === 1 && segments[0] === "**") {
+		return /^.*$/;
+	}
+
+	let pattern = "";
+	segments.forEach((segment, i) => {
+		if (segment === "**") {
+			// At the start "**/" consumes leading folders, elsewhere "/**" consumes trailing ones
+			pattern += i === 0 ? "(?:[^/]+/)*" : "(?:/[^/]+)*";
+			return;
+		}
+
+		const escaped = segment
+			.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+			.replace(/\*/g, "[^/]*")
+			.replace(/\?/g, "[^/]");
+		const needsSeparator = i > 0 && !(i === 1 && segments[0] === "**");
+		pattern += (needsSeparator ? "/" : "") + escaped;
+	});
+
+	return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Compile (and cache) a glob or regex mapping key. Returns null for invalid regexes.
+ */
+export function compilePattern(pattern: string, matchType: "glob" | "regex"): RegExp | null {
+	const cacheKey = `${matchType}:${pattern}`;
+	if (compiledPatterns.has(cacheKey)) {
+		return compiledPatterns.get(cacheKey) || null;
+	}
+
+	let compiled: RegExp | null = null;
+	try {
+		compiled = matchType === "glob" ? globToRegExp(pattern) : new RegExp(pattern);
+	} catch (e) {
+		// Invalid regex - the mapping simply never matches
+	}
+	compiledPatterns.set(cacheKey, compiled);
+	return compiled;
+}
+
+/**
+ * List the folders a mapping key currently applies to directly.
+ * Folder and glob keys are tested against folder paths; regex keys against
+ * full file paths, reporting the folders that contain a matching file.
+ */
+export function findMatchingFolders(app: App, pattern: string, matchType: MappingMatchType): string[] {
+	const folderPaths = ["", ...app.vault.getAllFolders().map(f => f.path)];
+
+	if (matchType === "folder") {
+		return folderPaths.filter(path => path === pattern);
+	}
+
+	const regex = compilePattern(pattern, matchType);
+	if (!regex) {
+		return [];
+	}
+
+	if (matchType === "glob") {
+		return folderPaths.filter(path => regex.test(path)).sort();
+	}
+
+	const folders = new Set<string>();
+	app.vault.getFiles().forEach((file: TFile) => {
+		if (regex.test(file.path)) {
+			folders.add(file.parent ? file.parent.path : "");
+		}
+	});
+	return Array.from(folders).sort();
+}
+
+/**
+ * Short human-readable summary of matched folders for settings descriptions
+ */
+export function describeMatchingFolders(folders: string[], limit = 5): string {
+	if (folders.length === 0) {
+		return "No folders currently match";
+	}
+	const names = folders.slice(0, limit).map(path => path === "" ? "/" : path);
+	const more = folders.length > limit ? ` (+${folders.length - limit} more)` : "";
+	return `Matches: ${names.join(", ")}${more}`;
+}
@@ -0,0 +1,81 @@
+import { App, TFolder } from "obsidian";
+import { FolderIconMapping } from "./settings";
+
+export interface FolderRenameResult {
+	folderIconMap: Record<string, FolderIconMapping>;
+	renamed: Array<[string, string]>; // [old key, new key]
+	skipped: string[]; // Keys left alone because the new path already has a mapping
+}
+
+/**
+ * Whether a mapping key is a literal folder path (as opposed to a glob or regex pattern)
+ */
+export function isLiteralFolderMapping(mapping: FolderIconMapping): boolean {
+	return !mapping.matchType || mapping.matchType === "folder";
+}
+
+/**
+ * Whether a literal folder key is the folder at `folderPath` or one of its subfolders
+ */
+function isWithinFolder(key: string, folderPath: string): boolean {
+	return key === folderPath || key.startsWith(`${folderPath}/`);
+}
+
+/**
+ * Rewrite literal folder keys after a folder moved from oldPath to newPath,
+ * including keys for nested folders. Key order is preserved.
+ */
+export function renameFolderKeys(
+	folderIconMap: Record<string, FolderIconMapping>,
+	oldPath: string,
+	newPath: string
+): FolderRenameResult {
+	const result: FolderRenameResult = { folderIconMap: {}, renamed: [], skipped: [] };
+	if (!oldPath) {
+		// The root folder can't be renamed
+		result.folderIconMap = folderIconMap;
+		return result;
+	}
+
+	for (const [key, mapping] of Object.entries(folderIconMap)) {
+		if (!isLiteralFolderMapping(mapping) || !isWithinFolder(key, oldPath)) {
+			result.folderIconMap[key] = mapping;
+			continue;
+		}
+
+		const newKey = newPath + key.slice(oldPath.length);
+		if (newKey !== key && folderIconMap[newKey]) {
+			// Never overwrite a mapping that already exists for the destination
+			result.folderIconMap[key] = mapping;
+			result.skipped.push(key);
+			continue;
+		}
+
+		result.folderIconMap[newKey] = mapping;
+		result.renamed.push([key, newKey]);
+	}
+
+	return result;
+}
+
+/**
+ * Literal folder keys affected by deleting the folder at folderPath
+ */
+export function findMappingsInFolder(folderIconMap: Record<string, FolderIconMapping>, folderPath: string): string[] {
+	if (!folderPath) {
+		return [];
+	}
+	return Object.entries(folderIconMap)
+		.filter(([key, mapping]) => isLiteralFolderMapping(mapping) && isWithinFolder(key, folderPath))
+		.map(([key]) => key);
+}
+
+/**
+ * Whether a literal folder mapping points to a folder that no longer exists
+ */
+export function isMissingFolder(app: App, key: string, mapping: FolderIconMapping): boolean {
+	if (key === "" || !isLiteralFolderMapping(mapping)) {
+		return false;
+	}
+	return !(app.vault.getAbstractFileByPath(key) instanceof TFolder);
+}
@@ -0,0 +1,92 @@
+import { Modal, App, Setting } from "obsidian";
+import { MappingMatchType, compilePattern, findMatchingFolders, describeMatchingFolders } from "./mapping-patterns";
+
+export class PatternInputModal extends Modal {
+	private pattern: string = "";
+	private matchType: "glob" | "regex" = "glob";
+	private onConfirm: (pattern: string, matchType: MappingMatchType) => void;
+	private previewEl: HTMLElement;
+
+	constructor(app: App, onConfirm: (pattern: string, matchType: MappingMatchType) => void) {
+		super(app);
+		this.onConfirm = onConfirm;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Add pattern mapping" });
+
+		new Setting(contentEl)
+			.setName("Mapping type")
+			.setDesc("Glob patterns match folder paths (e.g. Projects/*/Meetings, **/Archive). Regular expressions match the full file path.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("glob", "Glob (folder path)")
+					.addOption("regex", "Regex (file path)")
+					.setValue(this.matchType)
+					.onChange((value: "glob" | "regex") => {
+						this.matchType = value;
+						this.updatePreview();
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Pattern")
+			.addText((text) => {
+				text
+					.setPlaceholder("Projects/*/Meetings")
+					.onChange((value) => {
+						this.pattern = value.trim();
+						this.updatePreview();
+					});
+				setTimeout(() => text.inputEl.focus(), 100);
+			});
+
+		this.previewEl = contentEl.createDiv("link-icon-pattern-preview setting-item-description");
+		this.updatePreview();
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button
+					.setButtonText("Cancel")
+					.onClick(() => {
+						this.close();
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Next")
+					.setCta()
+					.onClick(() => {
+						if (!this.pattern || !compilePattern(this.pattern, this.matchType)) {
+							return;
+						}
+						this.close();
+						this.onConfirm(this.pattern, this.matchType);
+					})
+			);
+	}
+
+	onClose() {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Show which folders the pattern currently matches (or why it's invalid)
+	 */
+	private updatePreview(): void {
+		this.previewEl.empty();
+		if (!this.pattern) {
+			this.previewEl.setText("Enter a pattern to see which folders it matches.");
+			return;
+		}
+		if (!compilePattern(this.pattern, this.matchType)) {
+			this.previewEl.createSpan({ text: "Invalid regular expression", cls: "link-icon-error" });
+			return;
+		}
+		this.previewEl.setText(describeMatchingFolders(findMatchingFolders(this.app, this.pattern, this.matchType), 10));
+	}
+}
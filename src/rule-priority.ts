@@ -0,0 +1,114 @@
+import { App } from "obsidian";
+import { FolderIconMapping } from "./settings";
+import { compilePattern, findMatchingFolders } from "./mapping-patterns";
+
+export type FolderRulePriority = "specificity" | "order";
+
+export interface RuleConflict {
+	folders: string[]; // Folders the rule shares with other rules
+	rules: string[]; // Keys of the rules it collides with
+}
+
+/**
+ * Folder mapping entries in priority order: keys listed in `order` first,
+ * then any keys missing from it (new mappings) in object order
+ */
+export function orderedEntries(
+	map: Record<string, FolderIconMapping>,
+	order: string[]
+): Array<[string, FolderIconMapping]> {
+	const entries: Array<[string, FolderIconMapping]> = [];
+	const seen = new Set<string>();
+	order.forEach((key) => {
+		if (map[key] && !seen.has(key)) {
+			entries.push([key, map[key]]);
+			seen.add(key);
+		}
+	});
+	Object.entries(map).forEach(([key, mapping]) => {
+		if (!seen.has(key)) {
+			entries.push([key, mapping]);
+		}
+	});
+	return entries;
+}
+
+/**
+ * Move `key` to just before `beforeKey` (or to the end when beforeKey is null),
+ * returning the full priority order of the map's keys
+ */
+export function moveRule(
+	map: Record<string, FolderIconMapping>,
+	order: string[],
+	key: string,
+	beforeKey: string | null
+): string[] {
+	if (beforeKey === key) {
+		return orderedEntries(map, order).map(([k]) => k);
+	}
+	const keys = orderedEntries(map, order).map(([k]) => k).filter(k => k !== key);
+	const index = beforeKey === null ? -1 : keys.indexOf(beforeKey);
+	keys.splice(index === -1 ? keys.length : index, 0, key);
+	return keys;
+}
+
+/**
+ * Whether a folder rule applies to a file in folderPath, directly or through a parent folder
+ */
+export function folderRuleMatches(key: string, mapping: FolderIconMapping, folderPath: string, filePath?: string): boolean {
+	if (mapping.matchType === "regex") {
+		return filePath !== undefined && !!compilePattern(key, "regex")?.test(filePath);
+	}
+	if (mapping.matchType === "glob") {
+		const regex = compilePattern(key, "glob");
+		const parts = folderPath.split("/").filter(p => p !== "");
+		for (let i = parts.length; i >= 0; i--) {
+			if (regex?.test(parts.slice(0, i).join("/"))) {
+				return true;
+			}
+		}
+		return false;
+	}
+	return key === "" || folderPath === key || folderPath.startsWith(`${key}/`);
+}
+
+/**
+ * Replace renamed keys in the priority order
+ */
+export function renameInOrder(order: string[], renamed: Array<[string, string]>): string[] {
+	const renames = new Map(renamed);
+	return order.map(key => renames.get(key) ?? key);
+}
+
+/**
+ * Find rules that claim the same folder directly: literal and glob rules naming
+ * the same folder, or regex rules matching files in it. Rules that agree on both
+ * icon and color don't conflict. Parent folder rules being inherited isn't a conflict.
+ */
+export function findRuleConflicts(app: App, map: Record<string, FolderIconMapping>): Map<string, RuleConflict> {
+	const claims: Map<string, string[]> = new Map(); // folder -> rule keys
+	for (const [key, mapping] of Object.entries(map)) {
+		findMatchingFolders(app, key, mapping.matchType || "folder").forEach((folder) => {
+			claims.set(folder, [...(claims.get(folder) || []), key]);
+		});
+	}
+
+	const conflicts: Map<string, RuleConflict> = new Map();
+	claims.forEach((keys, folder) => {
+		const looks = new Set(keys.map(key => `${map[key].icon}\n${map[key].color || ""}`));
+		if (keys.length < 2 || looks.size < 2) {
+			return;
+		}
+		keys.forEach((key) => {
+			const conflict = conflicts.get(key) || { folders: [], rules: [] };
+			conflict.folders.push(folder);
+			keys.forEach((other) => {
+				if (other !== key && !conflict.rules.includes(other)) {
+					conflict.rules.push(other);
+				}
+			});
+			conflicts.set(key, conflict);
+		});
+	});
+	return conflicts;
+}
@@ -0,0 +1,290 @@
+import { LinkIconSettings, FolderIconMapping, DEFAULT_SETTINGS, ICON_SOURCE_LABELS } from "./settings";
+
+export const EXPORT_TYPE = "link-icon-settings";
+export const EXPORT_VERSION = 1;
+
+// Settings that hold mapping tables; everything else is a global setting
+export const MAPPING_TABLES = ["folderIconMap", "tagIconMap", "extensionIconMap", "domainIconMap"] as const;
+export type MappingTable = typeof MAPPING_TABLES[number];
+
+export const MAPPING_TABLE_LABELS: Record<MappingTable, string> = {
+	folderIconMap: "Folder",
+	tagIconMap: "Tag",
+	extensionIconMap: "File type",
+	domainIconMap: "Domain",
+};
+
+// Settings tied to this vault or its history, kept when merging general settings
+const MERGE_KEPT_SETTINGS = ["recentIcons", "customIconFolder"];
+
+// Properties a mapping entry may have
+const MAPPING_KEYS = ["icon", "color", "matchType", "size", "strokeWidth", "fill", "opacity", "badgeShape", "backgroundColor"];
+
+export type ImportMode = "merge" | "replace";
+
+export interface MappingConflict {
+	table: MappingTable;
+	key: string;
+	existing: FolderIconMapping;
+	imported: FolderIconMapping;
+}
+
+export interface ImportValidationResult {
+	settings: Partial<LinkIconSettings>;
+	errors: string[];
+}
+
+/**
+ * Serialize settings into the shareable export format
+ */
+export function exportSettings(settings: LinkIconSettings): string {
+	return JSON.stringify({ type: EXPORT_TYPE, version: EXPORT_VERSION, settings }, null, "\t");
+}
+
+/**
+ * Parse and validate imported JSON. Accepts the export format or a bare
+ * settings object (such as another vault's data.json).
+ */
+export function parseImportedSettings(json: string): ImportValidationResult {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch (e) {
+		return { settings: {}, errors: [`Not valid JSON: ${(e as Error).message}`] };
+	}
+
+	if (!isPlainObject(data)) {
+		return { settings: {}, errors: ["Expected a JSON object"] };
+	}
+
+	if (data.type === EXPORT_TYPE) {
+		if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+			return { settings: {}, errors: [`Unsupported export version: ${String(data.version)}`] };
+		}
+		if (!isPlainObject(data.settings)) {
+			return { settings: {}, errors: ["\"settings\" must be an object"] };
+		}
+		return validateSettings(data.settings);
+	}
+
+	return validateSettings(data);
+}
+
+/**
+ * Check an object against the LinkIconSettings shape, collecting every problem found
+ */
+export function validateSettings(data: Record<string, unknown>): ImportValidationResult {
+	const errors: string[] = [];
+	const settings: Record<string, unknown> = {};
+	const defaults = DEFAULT_SETTINGS as unknown as Record<string, unknown>;
+
+	for (const [key, value] of Object.entries(data)) {
+		if (!Object.prototype.hasOwnProperty.call(defaults, key)) {
+			errors.push(`Unknown setting "${key}"`);
+			continue;
+		}
+
+		if ((MAPPING_TABLES as readonly string[]).includes(key)) {
+			const tableErrors = validateMappingTable(key, value);
+			if (tableErrors.length > 0) {
+				errors.push(...tableErrors);
+			} else {
+				settings[key] = value;
+			}
+			continue;
+		}
+
+		const expectedType = typeof defaults[key];
+		if (typeof value !== expectedType) {
+			errors.push(`"${key}" must be a ${expectedType}, got ${describeType(value)}`);
+			continue;
+		}
+		settings[key] = value;
+	}
+
+	// Lists of icon names or mapping keys
+	for (const key of ["favoriteIcons", "recentIcons", "folderRuleOrder"]) {
+		const list = settings[key];
+		if (list !== undefined && (!Array.isArray(list) || list.some(item => typeof item !== "string"))) {
+			errors.push(`"${key}" must be a list of strings`);
+			delete settings[key];
+		}
+	}
+
+	const stackOrder = settings.iconStackOrder;
+	if (stackOrder !== undefined && (!Array.isArray(stackOrder) || stackOrder.some(source => !Object.prototype.hasOwnProperty.call(ICON_SOURCE_LABELS, source)))) {
+		errors.push(`"iconStackOrder" must be a list of: ${Object.keys(ICON_SOURCE_LABELS).join(", ")}`);
+		delete settings.iconStackOrder;
+	}
+
+	// Enumerated settings
+	if (settings.iconPosition !== undefined && settings.iconPosition !== "before" && settings.iconPosition !== "after") {
+		errors.push(`"iconPosition" must be "before" or "after"`);
+	}
+	if (settings.rulePrecedence !== undefined && settings.rulePrecedence !== "tag" && settings.rulePrecedence !== "folder") {
+		errors.push(`"rulePrecedence" must be "tag" or "folder"`);
+	}
+	if (settings.folderRulePriority !== undefined && settings.folderRulePriority !== "specificity" && settings.folderRulePriority !== "order") {
+		errors.push(`"folderRulePriority" must be "specificity" or "order"`);
+	}
+	if (settings.embedIconMode !== undefined && !["skip", "header", "separate"].includes(settings.embedIconMode as string)) {
+		errors.push(`"embedIconMode" must be "skip", "header" or "separate"`);
+	}
+	if (typeof settings.maxIconsPerLink === "number" && (settings.maxIconsPerLink < 1 || settings.maxIconsPerLink > 4)) {
+		errors.push(`"maxIconsPerLink" must be between 1 and 4`);
+	}
+	if (typeof settings.iconSize === "number" && (settings.iconSize < 1 || settings.iconSize > 128)) {
+		errors.push(`"iconSize" must be between 1 and 128`);
+	}
+
+	return { settings: settings as Partial<LinkIconSettings>, errors };
+}
+
+function validateMappingTable(table: string, value: unknown): string[] {
+	if (!isPlainObject(value)) {
+		return [`"${table}" must be an object of mappings, got ${describeType(value)}`];
+	}
+
+	const errors: string[] = [];
+	for (const [key, mapping] of Object.entries(value)) {
+		// Old format stored just the icon name
+		if (typeof mapping === "string") {
+			continue;
+		}
+		const where = `"${table}" → "${key}"`;
+		if (!isPlainObject(mapping)) {
+			errors.push(`${where} must be an object, got ${describeType(mapping)}`);
+			continue;
+		}
+		if (typeof mapping.icon !== "string" || mapping.icon === "") {
+			errors.push(`${where} is missing an icon name`);
+		}
+		if (mapping.color !== undefined && typeof mapping.color !== "string") {
+			errors.push(`${where}: "color" must be a string`);
+		}
+		if (mapping.matchType !== undefined && !["folder", "glob", "regex"].includes(mapping.matchType as string)) {
+			errors.push(`${where}: "matchType" must be "folder", "glob" or "regex"`);
+		}
+		for (const key of ["backgroundColor", "fill"]) {
+			if (mapping[key] !== undefined && typeof mapping[key] !== "string") {
+				errors.push(`${where}: "${key}" must be a string`);
+			}
+		}
+		if (mapping.size !== undefined && (typeof mapping.size !== "number" || mapping.size < 1 || mapping.size > 128)) {
+			errors.push(`${where}: "size" must be a number between 1 and 128`);
+		}
+		if (mapping.strokeWidth !== undefined && (typeof mapping.strokeWidth !== "number" || mapping.strokeWidth <= 0)) {
+			errors.push(`${where}: "strokeWidth" must be a positive number`);
+		}
+		if (mapping.opacity !== undefined && (typeof mapping.opacity !== "number" || mapping.opacity < 0 || mapping.opacity > 1)) {
+			errors.push(`${where}: "opacity" must be a number between 0 and 1`);
+		}
+		if (mapping.badgeShape !== undefined && mapping.badgeShape !== "circle" && mapping.badgeShape !== "square") {
+			errors.push(`${where}: "badgeShape" must be "circle" or "square"`);
+		}
+		const unknownKeys = Object.keys(mapping).filter(k => !MAPPING_KEYS.includes(k));
+		if (unknownKeys.length > 0) {
+			errors.push(`${where} has unknown properties: ${unknownKeys.join(", ")}`);
+		}
+	}
+	return errors;
+}
+
+/**
+ * Normalize a mapping table from an import, upgrading old string-only entries
+ */
+function normalizeTable(table: Record<string, FolderIconMapping | string>): Record<string, FolderIconMapping> {
+	const normalized: Record<string, FolderIconMapping> = {};
+	for (const [key, mapping] of Object.entries(table)) {
+		normalized[key] = typeof mapping === "string" ? { icon: mapping } : mapping;
+	}
+	return normalized;
+}
+
+/**
+ * Mappings present in both the current and imported settings with different values
+ */
+export function findConflicts(current: LinkIconSettings, imported: Partial<LinkIconSettings>): MappingConflict[] {
+	const conflicts: MappingConflict[] = [];
+	MAPPING_TABLES.forEach((table) => {
+		const importedTable = imported[table];
+		if (!importedTable) return;
+		for (const [key, mapping] of Object.entries(normalizeTable(importedTable))) {
+			const existing = current[table][key];
+			if (existing && JSON.stringify(existing) !== JSON.stringify(mapping)) {
+				conflicts.push({ table, key, existing, imported: mapping });
+			}
+		}
+	});
+	return conflicts;
+}
+
+/**
+ * Combine imported settings with the current ones.
+ * Replace: imported settings overwrite everything they contain (mapping tables included).
+ * Merge: mapping tables are combined; conflicting keys keep the current mapping
+ * unless overwriteConflicts is set. Global settings are taken from the import
+ * when includeGlobals is set, except that favorites and the folder rule order are
+ * extended rather than replaced, and recent icons and the custom icon folder are kept.
+ */
+export function applyImport(
+	current: LinkIconSettings,
+	imported: Partial<LinkIconSettings>,
+	mode: ImportMode,
+	overwriteConflicts: boolean,
+	includeGlobals: boolean
+): LinkIconSettings {
+	const result: LinkIconSettings = { ...current };
+	const target = result as unknown as Record<string, unknown>;
+
+	for (const [key, value] of Object.entries(imported)) {
+		if ((MAPPING_TABLES as readonly string[]).includes(key)) {
+			continue;
+		}
+		if (mode === "replace") {
+			target[key] = value;
+		} else if (includeGlobals && !MERGE_KEPT_SETTINGS.includes(key)) {
+			target[key] = key === "favoriteIcons" || key === "folderRuleOrder"
+				? appendMissing(current[key], value as string[])
+				: value;
+		}
+	}
+
+	MAPPING_TABLES.forEach((table) => {
+		const importedTable = imported[table];
+		if (!importedTable) return;
+		const normalized = normalizeTable(importedTable);
+
+		if (mode === "replace") {
+			result[table] = normalized;
+			return;
+		}
+
+		const merged: Record<string, FolderIconMapping> = { ...current[table] };
+		for (const [key, mapping] of Object.entries(normalized)) {
+			if (!merged[key] || overwriteConflicts) {
+				merged[key] = mapping;
+			}
+		}
+		result[table] = merged;
+	});
+
+	return result;
+}
+
+/**
+ * A list followed by the items of another list it doesn't already contain
+ */
+function appendMissing(list: string[], additions: string[]): string[] {
+	return list.concat(additions.filter((item, index) => !list.includes(item) && additions.indexOf(item) === index));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "an array";
+	return `a ${typeof value}`;
+}
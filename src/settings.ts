@@ -1,16 +1,87 @@
-import { App, PluginSettingTab, Setting, Modal, TextComponent } from "obsidian";
+import { App, PluginSettingTab, Setting, Modal, TextComponent, Notice, debounce, setIcon } from "obsidian";
 import LinkIconPlugin from "../main";
 import { IconPickerModal } from "./icon-picker-modal";
 import { FolderInputModal } from "./folder-input-modal";
+import { TagInputModal } from "./tag-input-modal";
+import { PatternInputModal } from "./pattern-input-modal";
+import { DomainInputModal } from "./domain-input-modal";
+import { ExtensionInputModal } from "./extension-input-modal";
+import { isMissingFolder } from "./mapping-sync";
+import { ImportSettingsModal } from "./import-settings-modal";
+import { exportSettings, MappingTable } from "./settings-transfer";
+import { customIcons } from "./custom-icons";
+import { IconStyleModal } from "./icon-style-modal";
+import { MappingMatchType, findMatchingFolders, describeMatchingFolders } from "./mapping-patterns";
+import { FolderRulePriority, RuleConflict, orderedEntries, moveRule, findRuleConflicts } from "./rule-priority";
 
-export interface FolderIconMapping {
+export type BadgeShape = "circle" | "square";
+
+/**
+ * Optional per-mapping look; anything left unset falls back to the global settings
+ */
+export interface IconStyle {
+	size?: number; // Pixels
+	strokeWidth?: number;
+	fill?: string; // Fill color for SVG shapes (Lucide icons are outlines by default)
+	opacity?: number; // 0-1
+	badgeShape?: BadgeShape; // Background shape drawn behind the icon
+	backgroundColor?: string; // Color of the badge shape, and of text badges ("text:..." icons)
+}
+
+export interface FolderIconMapping extends IconStyle {
 	icon: string;
 	color?: string;
+	matchType?: MappingMatchType; // How a folderIconMap key is interpreted (default: literal folder)
 }
 
+export type RulePrecedence = "tag" | "folder";
+
+// How embeds (![[...]]) are marked: not at all, with the embedded file's icons, or with one icon for all embeds
+export type EmbedIconMode = "skip" | "header" | "separate";
+
+// Rule kinds that can each contribute an icon when icons are stacked
+export type IconSource = "frontmatter" | "folder" | "tag" | "extension";
+
+export const ICON_SOURCE_LABELS: Record<IconSource, string> = {
+	frontmatter: "Frontmatter icon",
+	folder: "Folder rules",
+	tag: "Tag rules",
+	extension: "File type rules",
+};
+
 export interface LinkIconSettings {
 	iconPosition: "before" | "after";
 	folderIconMap: Record<string, FolderIconMapping>;
+	tagIconMap: Record<string, FolderIconMapping>; // Keyed by tag without the leading '#'
+	rulePrecedence: RulePrecedence; // Which rule type wins when both tag and folder rules match
+	folderRulePriority: FolderRulePriority; // Most specific folder rule wins, or the first matching rule in the list
+	folderRuleOrder: string[]; // folderIconMap keys in priority order (also breaks ties between patterns)
+	extensionIconMap: Record<string, FolderIconMapping>; // Keyed by file extension without the dot
+	extensionRulesFirst: boolean; // Extension rules beat tag and folder rules
+	maxIconsPerLink: number; // 1 shows only the winning rule's icon
+	iconStackOrder: IconSource[]; // Order of stacked icons, one per rule kind
+	dedupeStackedIcons: boolean; // Skip an icon already in the stack
+	frontmatterIconProperty: string; // Frontmatter key a note uses to set its own icon
+	frontmatterColorProperty: string; // Frontmatter key a note uses to set its own icon color
+	showInProperties: boolean; // Decorate links in the properties view
+	showSubpathMarker: boolean; // Secondary icon on links to a heading or block
+	headingMarkerIcon: string;
+	blockMarkerIcon: string;
+	embedIconMode: EmbedIconMode;
+	embedIcon: string; // Icon for every embed in "separate" mode
+	showUnresolvedIcon: boolean; // Mark links to notes that don't exist yet
+	unresolvedIcon: string;
+	unresolvedColor: string;
+	showExternalIcons: boolean; // Decorate http(s) and mailto links
+	domainIconMap: Record<string, FolderIconMapping>; // Keyed by domain or URL prefix (e.g. github.com/my-org)
+	externalIcon: string; // Fallback for web links without a domain rule; empty for none
+	mailtoIcon: string; // Icon for mailto: links; empty for none
+	customIconFolder: string; // Vault folder with custom .svg icons; empty to disable
+	showInFileExplorer: boolean; // Decorate file explorer rows
+	showInTabHeaders: boolean; // Decorate tab titles
+	showInTabList: boolean; // Decorate the tab list dropdown of a tab group
+	favoriteIcons: string[]; // Pinned at the top of the icon picker
+	recentIcons: string[]; // Most recently picked first
 	iconSize: number;
 	iconColor: string; // Default/fallback color
 }
@@ -18,10 +89,65 @@ export interface LinkIconSettings {
 export const DEFAULT_SETTINGS: LinkIconSettings = {
 	iconPosition: "before",
 	folderIconMap: {},
+	tagIconMap: {},
+	rulePrecedence: "tag",
+	folderRulePriority: "specificity",
+	folderRuleOrder: [],
+	extensionIconMap: {
+		pdf: { icon: "file-text" },
+		png: { icon: "image" },
+		jpg: { icon: "image" },
+		jpeg: { icon: "image" },
+		gif: { icon: "image" },
+		svg: { icon: "image" },
+		webp: { icon: "image" },
+		mp3: { icon: "file-audio" },
+		wav: { icon: "file-audio" },
+		m4a: { icon: "file-audio" },
+		ogg: { icon: "file-audio" },
+		mp4: { icon: "file-video" },
+		webm: { icon: "file-video" },
+		mov: { icon: "file-video" },
+		canvas: { icon: "layout-dashboard" },
+		excalidraw: { icon: "pen-tool" },
+	},
+	extensionRulesFirst: false,
+	maxIconsPerLink: 1,
+	iconStackOrder: ["frontmatter", "folder", "tag", "extension"],
+	dedupeStackedIcons: true,
+	frontmatterIconProperty: "link-icon",
+	frontmatterColorProperty: "link-icon-color",
+	showInProperties: true,
+	showSubpathMarker: false,
+	headingMarkerIcon: "hash",
+	blockMarkerIcon: "square",
+	embedIconMode: "header",
+	embedIcon: "file-input",
+	showUnresolvedIcon: true,
+	unresolvedIcon: "file-plus",
+	unresolvedColor: "var(--text-faint)",
+	showExternalIcons: true,
+	domainIconMap: {},
+	externalIcon: "globe",
+	mailtoIcon: "mail",
+	customIconFolder: "",
+	showInFileExplorer: false,
+	showInTabHeaders: false,
+	showInTabList: false,
+	favoriteIcons: [],
+	recentIcons: [],
 	iconSize: 16,
 	iconColor: "var(--text-normal)",
 }
 
+// Settings tab element holding each mapping table's rows
+const MAPPING_CONTAINER_CLASSES: Record<MappingTable, string> = {
+	folderIconMap: "folder-icon-mappings",
+	tagIconMap: "tag-icon-mappings",
+	extensionIconMap: "extension-icon-mappings",
+	domainIconMap: "domain-icon-mappings",
+};
+
 export class LinkIconSettingTab extends PluginSettingTab {
 	plugin: LinkIconPlugin;
 
@@ -49,7 +175,7 @@ export class LinkIconSettingTab extends PluginSettingTab {
 					.onChange(async (value: "before" | "after") => {
 						this.plugin.settings.iconPosition = value;
 						await this.plugin.saveSettings();
-						this.plugin.processAllLinks();
+						this.plugin.refreshAllIcons();
 					})
 			);
 
@@ -65,7 +191,7 @@ export class LinkIconSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.iconSize = value;
 						await this.plugin.saveSettings();
-						this.plugin.processAllLinks();
+						this.plugin.refreshAllIcons();
 					})
 			);
 
@@ -80,7 +206,7 @@ export class LinkIconSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.iconColor = value;
 						await this.plugin.saveSettings();
-						this.plugin.processAllLinks();
+						this.plugin.refreshAllIcons();
 					});
 				
 				// Add color picker button
@@ -104,7 +230,7 @@ export class LinkIconSettingTab extends PluginSettingTab {
 						text.setValue(hexColor);
 						this.plugin.settings.iconColor = hexColor;
 						await this.plugin.saveSettings();
-						this.plugin.processAllLinks();
+						this.plugin.refreshAllIcons();
 					});
 					
 					// Update color picker when text changes
@@ -118,17 +244,388 @@ export class LinkIconSettingTab extends PluginSettingTab {
 				}
 			});
 
+		// Precedence between tag and folder rules
+		new Setting(containerEl)
+			.setName("Rule precedence")
+			.setDesc("Which mapping wins when a linked note matches both a tag rule and a folder rule")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("tag", "Tag rules first")
+					.addOption("folder", "Folder rules first")
+					.setValue(this.plugin.settings.rulePrecedence)
+					.onChange(async (value: RulePrecedence) => {
+						this.plugin.settings.rulePrecedence = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		// Several icons per link, one from each kind of rule
+		containerEl.createEl("h3", { text: "Stacked Icons" });
+		containerEl.createEl("p", {
+			text: "Show more than one icon per link, e.g. a folder icon plus a status tag icon plus a file type icon. With one icon per link, only the winning rule's icon is shown.",
+			cls: "setting-item-description",
+		});
+
+		new Setting(containerEl)
+			.setName("Maximum icons per link")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 4, 1)
+					.setValue(this.plugin.settings.maxIconsPerLink)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.maxIconsPerLink = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Skip duplicate icons")
+			.setDesc("Don't repeat an icon that's already in the stack")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.dedupeStackedIcons)
+					.onChange(async (value) => {
+						this.plugin.settings.dedupeStackedIcons = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Stack order")
+			.setDesc("Stacked icons appear in this order. Kinds of rules that match nothing are skipped.");
+		const stackOrderContainer = containerEl.createDiv("link-icon-stack-order");
+		this.renderStackOrder(stackOrderContainer);
+
+		// The same icons outside note content
+		containerEl.createEl("h3", { text: "Icons Outside Notes" });
+		containerEl.createEl("p", {
+			text: "Show the icon a link to a file would get next to the file itself. Folders in the file explorer get their folder rule's icon.",
+			cls: "setting-item-description",
+		});
+
+		const addSurfaceToggle = (name: string, desc: string, key: "showInFileExplorer" | "showInTabHeaders" | "showInTabList") => {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(desc)
+				.addToggle((toggle) =>
+					toggle
+						.setValue(this.plugin.settings[key])
+						.onChange(async (value) => {
+							this.plugin.settings[key] = value;
+							await this.plugin.saveSettings();
+							this.plugin.refreshAllIcons();
+						})
+				);
+		};
+		addSurfaceToggle("File explorer", "Icons next to files and folders in the file explorer", "showInFileExplorer");
+		addSurfaceToggle("Tab headers", "Icons in the title of tabs showing a file", "showInTabHeaders");
+		addSurfaceToggle("Open files list", "Icons in the list of a tab group's open files (the tab list dropdown)", "showInTabList");
+
+		// Custom SVG icons
+		containerEl.createEl("h3", { text: "Custom Icons" });
+		containerEl.createEl("p", {
+			text: "Use your own .svg files as icons. They are sanitized, listed under \"Custom\" in the icon picker and drawn in the mapping color. Icons reload when files in the folder change.",
+			cls: "setting-item-description",
+		});
+
+		const describeCustomIcons = () => {
+			const count = customIcons.names().length;
+			return this.plugin.settings.customIconFolder
+				? `${count} ${count === 1 ? "icon" : "icons"} loaded`
+				: "Vault folder containing .svg files";
+		};
+		const reloadCustomIcons = debounce(async () => {
+			await this.plugin.reloadCustomIcons();
+			customIconSetting.setDesc(describeCustomIcons());
+		}, 500, true);
+
+		const customIconSetting = new Setting(containerEl)
+			.setName("Custom icon folder")
+			.setDesc(describeCustomIcons());
+
+		let folderText: TextComponent;
+		customIconSetting
+			.addText((text) => {
+				folderText = text;
+				text
+					.setPlaceholder("Assets/Icons")
+					.setValue(this.plugin.settings.customIconFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.customIconFolder = value.trim().replace(/\/+$/, "");
+						await this.plugin.saveSettings();
+						reloadCustomIcons();
+					});
+			})
+			.addButton((button) =>
+				button
+					.setButtonText("Choose…")
+					.onClick(() => {
+						new FolderInputModal(this.app, async (folderPath) => {
+							folderText.setValue(folderPath);
+							this.plugin.settings.customIconFolder = folderPath;
+							await this.plugin.saveSettings();
+							reloadCustomIcons();
+						}).open();
+					})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon("refresh-cw")
+					.setTooltip("Reload custom icons")
+					.onClick(() => reloadCustomIcons())
+			);
+
+		// Links to a heading or block: [[Note#Section]], [[Note#^id]], [[#Section]]
+		containerEl.createEl("h3", { text: "Heading and Block Links" });
+		containerEl.createEl("p", {
+			text: "Links to a heading or block get the icons of the note they point to; same-note links ([[#Section]]) get the current note's icons. A small marker can also show that the link targets a section.",
+			cls: "setting-item-description",
+		});
+
+		new Setting(containerEl)
+			.setName("Show section marker")
+			.setDesc("Add a marker icon after the note's icons on heading and block links")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showSubpathMarker)
+					.onChange(async (value) => {
+						this.plugin.settings.showSubpathMarker = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Heading marker")
+			.then((setting) => this.addIconPickerButton(
+				setting,
+				() => this.plugin.settings.headingMarkerIcon,
+				(iconName) => { this.plugin.settings.headingMarkerIcon = iconName; },
+				() => "",
+				true
+			));
+
+		new Setting(containerEl)
+			.setName("Block marker")
+			.then((setting) => this.addIconPickerButton(
+				setting,
+				() => this.plugin.settings.blockMarkerIcon,
+				(iconName) => { this.plugin.settings.blockMarkerIcon = iconName; },
+				() => "",
+				true
+			));
+
+		// Embeds ![[...]]
+		containerEl.createEl("h3", { text: "Embeds" });
+
+		new Setting(containerEl)
+			.setName("Icons on embeds")
+			.setDesc("Embedded notes, images and other files (![[...]]). The icon appears in the top corner of the embed, in Reading View and Live Preview alike.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("skip", "No icon")
+					.addOption("header", "Embedded file's icon")
+					.addOption("separate", "Embed icon")
+					.setValue(this.plugin.settings.embedIconMode)
+					.onChange(async (value: EmbedIconMode) => {
+						this.plugin.settings.embedIconMode = value;
+						embedIconSetting.settingEl.toggle(value === "separate");
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		const embedIconSetting = new Setting(containerEl)
+			.setName("Embed icon")
+			.setDesc("Icon shown on every embed")
+			.then((setting) => this.addIconPickerButton(
+				setting,
+				() => this.plugin.settings.embedIcon,
+				(iconName) => { this.plugin.settings.embedIcon = iconName; },
+				() => ""
+			));
+		embedIconSetting.settingEl.toggle(this.plugin.settings.embedIconMode === "separate");
+
+		// Unresolved links
+		containerEl.createEl("h3", { text: "Unresolved Links" });
+
+		new Setting(containerEl)
+			.setName("Show icon on unresolved links")
+			.setDesc("Mark links to notes that don't exist yet with a dashed icon")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showUnresolvedIcon)
+					.onChange(async (value) => {
+						this.plugin.settings.showUnresolvedIcon = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Unresolved link icon")
+			.setDesc("Icon and color used for links to missing notes")
+			.then((setting) => this.addIconPickerButton(
+				setting,
+				() => this.plugin.settings.unresolvedIcon,
+				(iconName) => { this.plugin.settings.unresolvedIcon = iconName; },
+				() => this.plugin.settings.unresolvedColor
+			))
+			.addText((text) => {
+				text.inputEl.addClass("link-icon-color-input");
+				text
+					.setPlaceholder("Default color")
+					.setValue(this.plugin.settings.unresolvedColor)
+					.onChange(async (value) => {
+						this.plugin.settings.unresolvedColor = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					});
+			});
+
+		// External links
+		containerEl.createEl("h3", { text: "External Links" });
+		containerEl.createEl("p", {
+			text: "Map domains or URL prefixes to icons for web links, both Markdown links and bare URLs. The most specific matching rule wins.",
+			cls: "setting-item-description",
+		});
+
+		new Setting(containerEl)
+			.setName("Show icons on external links")
+			.setDesc("Add icons to http(s) and mailto links")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showExternalIcons)
+					.onChange(async (value) => {
+						this.plugin.settings.showExternalIcons = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Fallback web link icon")
+			.setDesc("Icon for http(s) links that don't match any domain mapping")
+			.then((setting) => this.addIconPickerButton(
+				setting,
+				() => this.plugin.settings.externalIcon,
+				(iconName) => { this.plugin.settings.externalIcon = iconName; },
+				() => this.plugin.settings.iconColor,
+				true
+			));
+
+		new Setting(containerEl)
+			.setName("Email link icon")
+			.setDesc("Icon for mailto: links")
+			.then((setting) => this.addIconPickerButton(
+				setting,
+				() => this.plugin.settings.mailtoIcon,
+				(iconName) => { this.plugin.settings.mailtoIcon = iconName; },
+				() => this.plugin.settings.iconColor,
+				true
+			));
+
+		const domainMappingContainer = containerEl.createDiv("domain-icon-mappings");
+
+		this.renderDomainMappings(domainMappingContainer);
+
+		new Setting(containerEl)
+			.setName("Add domain mapping")
+			.setDesc("Add a new domain-to-icon mapping")
+			.addButton((button) =>
+				button
+					.setButtonText("Add mapping")
+					.setCta()
+					.onClick(() => {
+						new DomainInputModal(this.app, (domain) => {
+							new IconPickerModal(this.app, this.plugin, async (iconName) => {
+								this.plugin.settings.domainIconMap[domain] = { icon: iconName };
+								await this.plugin.saveSettings();
+								this.renderDomainMappings(domainMappingContainer);
+								this.plugin.refreshAllIcons();
+							}).open();
+						}).open();
+					})
+			);
+
+		// Per-note frontmatter override
+		containerEl.createEl("h3", { text: "Frontmatter Override" });
+		containerEl.createEl("p", {
+			text: "A note can set its own icon and color in frontmatter. Every link to that note uses them, overriding tag and folder mappings.",
+			cls: "setting-item-description",
+		});
+
+		new Setting(containerEl)
+			.setName("Icon property")
+			.setDesc("Frontmatter property holding a Lucide icon name (e.g. link-icon: rocket). Leave empty to disable.")
+			.addText((text) =>
+				text
+					.setPlaceholder("link-icon")
+					.setValue(this.plugin.settings.frontmatterIconProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterIconProperty = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Color property")
+			.setDesc("Frontmatter property holding the icon color (e.g. link-icon-color: \"#e33\"). Leave empty to disable.")
+			.addText((text) =>
+				text
+					.setPlaceholder("link-icon-color")
+					.setValue(this.plugin.settings.frontmatterColorProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.frontmatterColorProperty = value.trim();
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Icons on links in properties")
+			.setDesc("Add icons to links in note properties (e.g. related: \"[[Project]]\"), as shown in the properties view. Raw frontmatter in the source editor never gets icons.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.showInProperties)
+					.onChange(async (value) => {
+						this.plugin.settings.showInProperties = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
 		// Folder to icon mapping
 		containerEl.createEl("h3", { text: "Folder Icon Mapping" });
 		containerEl.createEl("p", {
-			text: "Map folder paths to Lucide icon names. Leave folder path empty for root folder.",
+			text: "Map folder paths to Lucide icon names. Leave folder path empty for root folder. Glob keys (e.g. Projects/*/Meetings, **/Archive) match folder paths; regex keys match the full file path.",
 			cls: "setting-item-description",
 		});
 
+		new Setting(containerEl)
+			.setName("Folder rule priority")
+			.setDesc("Which folder rule wins when several apply to a note. Drag rules in the list below to set their priority; it also decides between patterns matching the same folder. Tag and file type rules aren't part of this order: see Rule precedence and File type rules win.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("specificity", "Most specific folder wins")
+					.addOption("order", "First rule in the list wins")
+					.setValue(this.plugin.settings.folderRulePriority)
+					.onChange(async (value: FolderRulePriority) => {
+						this.plugin.settings.folderRulePriority = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
 		// Display existing mappings
 		const mappingContainer = containerEl.createDiv("folder-icon-mappings");
 
-		this.renderMappings(mappingContainer);
+		this.renderFolderMappings(mappingContainer);
 
 		// Add new mapping button
 		new Setting(containerEl)
@@ -140,54 +637,434 @@ export class LinkIconSettingTab extends PluginSettingTab {
 					.setCta()
 					.onClick(() => {
 						new FolderInputModal(this.app, (folderPath) => {
+							if (this.warnIfMappingExists(folderPath)) {
+								return;
+							}
 							// After folder path is entered, show icon picker
-							new IconPickerModal(this.app, async (iconName) => {
+							new IconPickerModal(this.app, this.plugin, async (iconName) => {
 								// Create mapping with icon
 								this.plugin.settings.folderIconMap[folderPath] = { icon: iconName };
 								await this.plugin.saveSettings();
-								this.renderMappings(mappingContainer);
-								this.plugin.processAllLinks();
+								this.renderFolderMappings(mappingContainer);
+								this.plugin.refreshAllIcons();
 							}).open();
 						}).open();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("Add pattern mapping")
+			.setDesc("Add a glob or regex mapping that applies to every matching folder or file")
+			.addButton((button) =>
+				button
+					.setButtonText("Add pattern")
+					.onClick(() => {
+						new PatternInputModal(this.app, (pattern, matchType) => {
+							if (this.warnIfMappingExists(pattern)) {
+								return;
+							}
+							new IconPickerModal(this.app, this.plugin, async (iconName) => {
+								this.plugin.settings.folderIconMap[pattern] = { icon: iconName, matchType };
+								await this.plugin.saveSettings();
+								this.renderFolderMappings(mappingContainer);
+								this.plugin.refreshAllIcons();
+							}).open();
+						}).open();
+					})
+			);
+
+		// File extension to icon mapping
+		containerEl.createEl("h3", { text: "File Type Icon Mapping" });
+		containerEl.createEl("p", {
+			text: "Map file extensions to Lucide icon names for links to attachments, canvases and other non-Markdown files. Drawings stored as .excalidraw.md also match \"excalidraw\".",
+			cls: "setting-item-description",
+		});
+
+		new Setting(containerEl)
+			.setName("File type rules win")
+			.setDesc("When enabled, a matching file type rule beats tag and folder rules. When disabled, it's only used if no tag or folder rule matches.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.extensionRulesFirst)
+					.onChange(async (value) => {
+						this.plugin.settings.extensionRulesFirst = value;
+						await this.plugin.saveSettings();
+						this.plugin.refreshAllIcons();
+					})
+			);
+
+		const extensionMappingContainer = containerEl.createDiv("extension-icon-mappings");
+
+		this.renderExtensionMappings(extensionMappingContainer);
+
+		new Setting(containerEl)
+			.setName("Add file type mapping")
+			.setDesc("Add a new extension-to-icon mapping")
+			.addButton((button) =>
+				button
+					.setButtonText("Add mapping")
+					.setCta()
+					.onClick(() => {
+						new ExtensionInputModal(this.app, (extension) => {
+							new IconPickerModal(this.app, this.plugin, async (iconName) => {
+								this.plugin.settings.extensionIconMap[extension] = { icon: iconName };
+								await this.plugin.saveSettings();
+								this.renderExtensionMappings(extensionMappingContainer);
+								this.plugin.refreshAllIcons();
+							}).open();
+						}).open();
+					})
+			);
+
+		// Tag to icon mapping
+		containerEl.createEl("h3", { text: "Tag Icon Mapping" });
+		containerEl.createEl("p", {
+			text: "Map tags to Lucide icon names. A rule for a parent tag (e.g. #project) also matches nested tags (e.g. #project/active); the most specific tag wins.",
+			cls: "setting-item-description",
+		});
+
+		const tagMappingContainer = containerEl.createDiv("tag-icon-mappings");
+
+		this.renderTagMappings(tagMappingContainer);
+
+		new Setting(containerEl)
+			.setName("Add tag mapping")
+			.setDesc("Add a new tag-to-icon mapping")
+			.addButton((button) =>
+				button
+					.setButtonText("Add mapping")
+					.setCta()
+					.onClick(() => {
+						new TagInputModal(this.app, (tag) => {
+							new IconPickerModal(this.app, this.plugin, async (iconName) => {
+								this.plugin.settings.tagIconMap[tag] = { icon: iconName };
+								await this.plugin.saveSettings();
+								this.renderTagMappings(tagMappingContainer);
+								this.plugin.refreshAllIcons();
+							}).open();
+						}).open();
+					})
+			);
+
+		// Share mappings and settings between vaults
+		containerEl.createEl("h3", { text: "Import & Export" });
+
+		new Setting(containerEl)
+			.setName("Export settings")
+			.setDesc("Save all mappings and general settings as JSON to reuse in another vault")
+			.addButton((button) =>
+				button
+					.setButtonText("Download")
+					.onClick(() => {
+						const blob = new Blob([exportSettings(this.plugin.settings)], { type: "application/json" });
+						const url = URL.createObjectURL(blob);
+						const link = document.createElement("a");
+						link.href = url;
+						link.download = "link-icon-settings.json";
+						link.click();
+						URL.revokeObjectURL(url);
+					})
+			)
+			.addButton((button) =>
+				button
+					.setButtonText("Copy")
+					.onClick(async () => {
+						await navigator.clipboard.writeText(exportSettings(this.plugin.settings));
+						new Notice("Link Icon settings copied to clipboard");
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Import settings")
+			.setDesc("Merge or replace mappings and settings from an exported JSON file")
+			.addButton((button) =>
+				button
+					.setButtonText("Import…")
+					.onClick(() => {
+						new ImportSettingsModal(this.app, this.plugin.settings, async (settings) => {
+							const iconFolderChanged = settings.customIconFolder !== this.plugin.settings.customIconFolder;
+							this.plugin.settings = settings;
+							await this.plugin.saveSettings();
+							if (iconFolderChanged) {
+								// Also refreshes every icon
+								await this.plugin.reloadCustomIcons();
+							} else {
+								this.plugin.refreshAllIcons();
+							}
+							this.display();
+							new Notice("Link Icon settings imported");
+						}).open();
+					})
+			);
+	}
+
+	renderFolderMappings(container: HTMLElement): void {
+		this.renderMappings(container, this.plugin.settings.folderIconMap, (folderPath, mapping) => {
+			if (mapping.matchType === "regex") return `/${folderPath}/`;
+			return folderPath === "" && !mapping.matchType ? "Root folder" : folderPath;
+		}, true);
+	}
+
+	renderTagMappings(container: HTMLElement): void {
+		this.renderMappings(container, this.plugin.settings.tagIconMap, (tag) => `#${tag}`, false);
+	}
+
+	renderExtensionMappings(container: HTMLElement): void {
+		this.renderMappings(container, this.plugin.settings.extensionIconMap, (extension) => `.${extension}`, false);
+	}
+
+	renderDomainMappings(container: HTMLElement): void {
+		this.renderMappings(container, this.plugin.settings.domainIconMap, (domain) => domain, false);
+	}
+
+	/**
+	 * Scroll a mapping's row into view and highlight it briefly
+	 */
+	revealMapping(table: MappingTable, key: string): void {
+		const container = this.containerEl.querySelector(`.${MAPPING_CONTAINER_CLASSES[table]}`);
+		const row = Array.from(container?.querySelectorAll<HTMLElement>(".setting-item") || [])
+			.find(el => el.dataset.mappingKey === key);
+		if (!row) {
+			return;
+		}
+		row.scrollIntoView({ block: "center" });
+		row.addClass("link-icon-mapping-highlight");
+		window.setTimeout(() => row.removeClass("link-icon-mapping-highlight"), 2000);
+	}
+
+	/**
+	 * Folder paths and patterns share one table, so a new key must not replace an existing
+	 * mapping of either kind. Shows the existing mapping and returns true if there is one.
+	 */
+	private warnIfMappingExists(key: string): boolean {
+		const existing = this.plugin.settings.folderIconMap[key];
+		if (!existing) {
+			return false;
+		}
+		const kind = existing.matchType ? `${existing.matchType} pattern` : "folder mapping";
+		new Notice(`A ${kind} for "${key}" already exists. Edit or remove it first.`);
+		this.revealMapping("folderIconMap", key);
+		return true;
+	}
+
+	/**
+	 * Add an icon picker button (and optionally a clear button) for a single global icon setting
+	 */
+	private addIconPickerButton(
+		setting: Setting,
+		getIcon: () => string,
+		setIcon: (iconName: string) => void,
+		getColor: () => string,
+		allowClear: boolean = false
+	): void {
+		setting.addButton((button) => {
+			const renderButton = () => {
+				button.buttonEl.empty();
+				const iconName = getIcon();
+				if (iconName) {
+					button.buttonEl.appendChild(this.plugin.createIconElement(iconName, getColor() || this.plugin.settings.iconColor));
+				}
+				button.buttonEl.createSpan({ text: ` ${iconName || "None"}`, cls: "icon-name-text" });
+			};
+			renderButton();
+			button
+				.setTooltip("Click to change icon")
+				.onClick(() => {
+					new IconPickerModal(this.app, this.plugin, async (iconName) => {
+						setIcon(iconName);
+						await this.plugin.saveSettings();
+						renderButton();
+						this.plugin.refreshAllIcons();
+					}).open();
+				});
+
+			if (allowClear) {
+				setting.addExtraButton((extra) =>
+					extra
+						.setIcon("x")
+						.setTooltip("No icon")
+						.onClick(async () => {
+							setIcon("");
+							await this.plugin.saveSettings();
+							renderButton();
+							this.plugin.refreshAllIcons();
+						})
+				);
+			}
+		});
+	}
+
+	/**
+	 * Render the rule kinds of the icon stack with buttons to move them up and down
+	 */
+	renderStackOrder(container: HTMLElement): void {
+		container.empty();
+		const order = this.plugin.settings.iconStackOrder;
+
+		const move = async (index: number, offset: number) => {
+			const reordered = [...order];
+			[reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+			this.plugin.settings.iconStackOrder = reordered;
+			await this.plugin.saveSettings();
+			this.renderStackOrder(container);
+			this.plugin.refreshAllIcons();
+		};
+
+		order.forEach((source, index) => {
+			new Setting(container)
+				.setName(`${index + 1}. ${ICON_SOURCE_LABELS[source]}`)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(() => index > 0 && move(index, -1))
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === order.length - 1)
+						.onClick(() => index < order.length - 1 && move(index, 1))
+				);
+		});
 	}
 
-	renderMappings(container: HTMLElement): void {
+	/**
+	 * Render the editable rows for a mapping table (folder or tag rules)
+	 */
+	renderMappings(
+		container: HTMLElement,
+		map: Record<string, FolderIconMapping>,
+		getDisplayName: (key: string, mapping: FolderIconMapping) => string,
+		allowPatterns: boolean
+	): void {
 		container.empty();
 
-		for (const [folderPath, mapping] of Object.entries(this.plugin.settings.folderIconMap)) {
+		// Folder rules are listed in priority order and can be dragged to reorder them
+		const entries = allowPatterns ? orderedEntries(map, this.plugin.settings.folderRuleOrder) : Object.entries(map);
+		const conflicts = allowPatterns ? findRuleConflicts(this.app, map) : new Map<string, RuleConflict>();
+		let draggedKey: string | null = null;
+
+		for (const [folderPath, mapping] of entries) {
 			const iconName = mapping.icon;
 			const iconColor = mapping.color || this.plugin.settings.iconColor;
+
+			// Pattern rows also list the folders they currently match
+			const matchType = mapping.matchType || "folder";
+			const matchSummary = allowPatterns && matchType !== "folder"
+				? ` · ${describeMatchingFolders(findMatchingFolders(this.app, folderPath, matchType))}`
+				: "";
+			
+			// Folder rows whose folder was deleted are kept but flagged
+			const missingFolder = allowPatterns && isMissingFolder(this.app, folderPath, mapping);
+			let statusSummary = missingFolder ? " · Folder not found" : matchSummary;
+
+			// Rules claiming the same folder with a different icon are flagged with where they collide
+			const conflict = conflicts.get(folderPath);
+			if (conflict) {
+				const rules = conflict.rules.map(key => getDisplayName(key, map[key])).join(", ");
+				const folders = conflict.folders.slice(0, 3).map(folder => folder === "" ? "/" : folder).join(", ");
+				const more = conflict.folders.length > 3 ? ` (+${conflict.folders.length - 3} more)` : "";
+				statusSummary += ` · Collides with ${rules} in ${folders}${more}`;
+			}
 			
 			const setting = new Setting(container)
-				.setName(folderPath === "" ? "Root folder" : folderPath)
-				.setDesc(`Icon: ${iconName}`)
+				.setName(getDisplayName(folderPath, mapping))
+				.setDesc(`Icon: ${iconName}${statusSummary}`);
+			setting.settingEl.dataset.mappingKey = folderPath;
+			if (missingFolder) {
+				setting.settingEl.addClass("link-icon-mapping-missing");
+			}
+			if (conflict) {
+				setting.settingEl.addClass("link-icon-mapping-conflict");
+			}
+
+			if (allowPatterns) {
+				const settingEl = setting.settingEl;
+				const handle = createDiv({ cls: "link-icon-drag-handle", attr: { "aria-label": "Drag to change priority" } });
+				setIcon(handle, "grip-vertical");
+				settingEl.prepend(handle);
+				settingEl.draggable = true;
+				settingEl.addEventListener("dragstart", (e) => {
+					draggedKey = folderPath;
+					e.dataTransfer?.setData("text/plain", folderPath);
+					settingEl.addClass("is-dragging");
+				});
+				settingEl.addEventListener("dragend", () => {
+					draggedKey = null;
+					settingEl.removeClass("is-dragging");
+				});
+				settingEl.addEventListener("dragover", (e) => {
+					if (draggedKey !== null && draggedKey !== folderPath) {
+						e.preventDefault();
+						settingEl.addClass("is-drop-target");
+					}
+				});
+				settingEl.addEventListener("dragleave", () => settingEl.removeClass("is-drop-target"));
+				settingEl.addEventListener("drop", async (e) => {
+					e.preventDefault();
+					settingEl.removeClass("is-drop-target");
+					if (draggedKey === null || draggedKey === folderPath) {
+						return;
+					}
+					// Dropping on the top half of a row places the dragged rule above it, the bottom half below it
+					const rect = settingEl.getBoundingClientRect();
+					const below = e.clientY > rect.top + rect.height / 2;
+					const index = entries.findIndex(([key]) => key === folderPath);
+					const beforeKey = below ? (entries[index + 1]?.[0] ?? null) : folderPath;
+					this.plugin.settings.folderRuleOrder = moveRule(map, this.plugin.settings.folderRuleOrder, draggedKey, beforeKey);
+					await this.plugin.saveSettings();
+					this.renderMappings(container, map, getDisplayName, allowPatterns);
+					this.plugin.refreshAllIcons();
+				});
+			}
+
+			if (allowPatterns) {
+				setting.addDropdown((dropdown) =>
+					dropdown
+						.addOption("folder", "Folder")
+						.addOption("glob", "Glob")
+						.addOption("regex", "Regex")
+						.setValue(matchType)
+						.onChange(async (value: MappingMatchType) => {
+							const { matchType: _previous, ...rest } = map[folderPath];
+							map[folderPath] = value === "folder" ? rest : { ...rest, matchType: value };
+							await this.plugin.saveSettings();
+							this.renderMappings(container, map, getDisplayName, allowPatterns);
+							this.plugin.refreshAllIcons();
+						})
+				);
+			}
+
+			// The icon button doubles as a live preview of the mapping's icon, color and style
+			let iconButtonEl: HTMLElement;
+			const updatePreview = () => {
+				const current = map[folderPath];
+				iconButtonEl.empty();
+				iconButtonEl.appendChild(this.plugin.createIconElement(current.icon, current.color || this.plugin.settings.iconColor, current));
+				iconButtonEl.createSpan({ text: ` ${current.icon}`, cls: "icon-name-text" });
+			};
+
+			setting
 				.addButton((button) => {
-					// Create icon element and add to button
-					const iconEl = this.plugin.createIconElement(iconName, iconColor);
-					button.buttonEl.appendChild(iconEl);
-					button.buttonEl.createSpan({ text: ` ${iconName}`, cls: "icon-name-text" });
+					iconButtonEl = button.buttonEl;
+					updatePreview();
 					
 					button
 						.setTooltip("Click to change icon")
 						.onClick(() => {
 							// Show icon picker
-							new IconPickerModal(this.app, async (newIconName) => {
-								// Preserve existing color if set
-								const existingColor = this.plugin.settings.folderIconMap[folderPath]?.color;
-								this.plugin.settings.folderIconMap[folderPath] = { 
-									icon: newIconName,
-									...(existingColor ? { color: existingColor } : {})
+							new IconPickerModal(this.app, this.plugin, async (newIconName) => {
+								// Preserve existing color, style and match type
+								map[folderPath] = { 
+									...map[folderPath],
+									icon: newIconName
 								};
 								await this.plugin.saveSettings();
-								setting.setDesc(`Icon: ${newIconName}`);
-								// Update button content
-								button.buttonEl.empty();
-								const newIconEl = this.plugin.createIconElement(newIconName, iconColor);
-								button.buttonEl.appendChild(newIconEl);
-								button.buttonEl.createSpan({ text: ` ${newIconName}`, cls: "icon-name-text" });
-								this.plugin.processAllLinks();
+								setting.setDesc(`Icon: ${newIconName}${statusSummary}`);
+								updatePreview();
+								this.plugin.refreshAllIcons();
 							}).open();
 						});
 				})
@@ -198,17 +1075,18 @@ export class LinkIconSettingTab extends PluginSettingTab {
 						.setValue(mapping.color || "")
 						.onChange(async (value: string) => {
 							if (value.trim()) {
-								this.plugin.settings.folderIconMap[folderPath] = {
-									...mapping,
+								map[folderPath] = {
+									...map[folderPath],
 									color: value.trim()
 								};
 							} else {
 								// Remove color to use default
-								const { color, ...mappingWithoutColor } = this.plugin.settings.folderIconMap[folderPath];
-								this.plugin.settings.folderIconMap[folderPath] = mappingWithoutColor;
+								const { color, ...mappingWithoutColor } = map[folderPath];
+								map[folderPath] = mappingWithoutColor;
 							}
 							await this.plugin.saveSettings();
-							this.plugin.processAllLinks();
+							updatePreview();
+							this.plugin.refreshAllIcons();
 						});
 					
 					// Add color picker button next to text input
@@ -232,12 +1110,13 @@ export class LinkIconSettingTab extends PluginSettingTab {
 						colorInput.addEventListener("change", async (e) => {
 							const hexColor = (e.target as HTMLInputElement).value;
 							text.setValue(hexColor);
-							this.plugin.settings.folderIconMap[folderPath] = {
-								...mapping,
+							map[folderPath] = {
+								...map[folderPath],
 								color: hexColor
 							};
 							await this.plugin.saveSettings();
-							this.plugin.processAllLinks();
+							updatePreview();
+							this.plugin.refreshAllIcons();
 						});
 						
 						// Update color picker when text changes
@@ -250,15 +1129,40 @@ export class LinkIconSettingTab extends PluginSettingTab {
 						});
 					}
 				})
+				.addExtraButton((button) =>
+					button
+						.setIcon("paintbrush")
+						.setTooltip("Icon style")
+						.onClick(() => {
+							new IconStyleModal(this.app, this.plugin, map[folderPath], async (style) => {
+								const { icon, color, matchType } = map[folderPath];
+								map[folderPath] = { icon, color, matchType, ...style };
+								// Unset fields are left out of the saved mapping
+								Object.keys(map[folderPath]).forEach((key: keyof FolderIconMapping) => {
+									if (map[folderPath][key] === undefined) {
+										delete map[folderPath][key];
+									}
+								});
+								await this.plugin.saveSettings();
+								updatePreview();
+								this.plugin.refreshAllIcons();
+							}).open();
+						})
+				);
+
+			setting
 				.addButton((button) =>
 					button
 						.setIcon("trash")
 						.setTooltip("Delete mapping")
 						.onClick(async () => {
-							delete this.plugin.settings.folderIconMap[folderPath];
+							delete map[folderPath];
+							if (allowPatterns) {
+								this.plugin.settings.folderRuleOrder = this.plugin.settings.folderRuleOrder.filter(key => key !== folderPath);
+							}
 							await this.plugin.saveSettings();
-							this.renderMappings(container);
-							this.plugin.processAllLinks();
+							this.renderMappings(container, map, getDisplayName, allowPatterns);
+							this.plugin.refreshAllIcons();
 						})
 				);
 		}
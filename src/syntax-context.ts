@@ -0,0 +1,54 @@
+import { syntaxTree } from "@codemirror/language";
+import { EditorState } from "@codemirror/state";
+import { ViewUpdate } from "@codemirror/view";
+import { SyntaxNode } from "@lezer/common";
+
+// Tokens of Obsidian's Markdown syntax tree whose text is never a link: code blocks and
+// inline code, math, %% and HTML comments and the YAML frontmatter.
+// Token names list every style of the token, separated by "_" (e.g. "hmd-codeblock_hmd-codeblock-bg").
+const NON_LINK_TOKEN = /(?:^|_)(?:hmd-codeblock|inline-code|formatting-code|math|formatting-math|comment|hmd-frontmatter)(?:_|-|$)/;
+// Text on an edited line that means the edit may open or close a code block, math block, comment or frontmatter
+const CONTEXT_DELIMITER = /[`$~%]|<!--|-->|---/;
+
+/**
+ * Whether the syntax tree puts pos inside code, math, a comment or frontmatter.
+ * Parts of the document that haven't been parsed yet count as plain text.
+ */
+export function isInNonLinkSyntax(state: EditorState, pos: number): boolean {
+	for (let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, 1); node; node = node.parent) {
+		if (NON_LINK_TOKEN.test(node.type.name)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Whether an update can change which text counts as a link outside the edited lines:
+ * the parser got further through the document, or an edited line has (or had) a
+ * delimiter that opens or closes a block. Whole lines are checked because a delimiter
+ * is often completed one character at a time, e.g. the last "-" of "<!--".
+ */
+export function changesSyntaxContext(update: ViewUpdate): boolean {
+	if (syntaxTree(update.startState) === syntaxTree(update.state)) {
+		return false;
+	}
+	if (!update.docChanged) {
+		return true;
+	}
+	let found = false;
+	update.changes.iterChanges((fromA, toA, fromB, toB) => {
+		if (!found) {
+			found = CONTEXT_DELIMITER.test(getLines(update.state, fromB, toB)) || CONTEXT_DELIMITER.test(getLines(update.startState, fromA, toA));
+		}
+	});
+	return found;
+}
+
+/**
+ * Text of the whole lines spanning from..to
+ */
+function getLines(state: EditorState, from: number, to: number): string {
+	const { doc } = state;
+	return doc.sliceString(doc.lineAt(from).from, doc.lineAt(to).to);
+}
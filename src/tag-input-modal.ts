@@ -0,0 +1,67 @@
+import { App, FuzzySuggestModal, FuzzyMatch, TFile, getAllTags } from "obsidian";
+
+export class TagInputModal extends FuzzySuggestModal<string> {
+	private tagCounts: Map<string, number>;
+	private onSelect: (tag: string) => void;
+
+	constructor(app: App, onSelect: (tag: string) => void) {
+		super(app);
+		this.onSelect = onSelect;
+		this.tagCounts = this.collectVaultTags();
+		this.setPlaceholder("Type a tag (e.g. project/active)");
+	}
+
+	/**
+	 * Collect every tag used in the vault (without '#'), with usage counts
+	 */
+	private collectVaultTags(): Map<string, number> {
+		const counts = new Map<string, number>();
+		this.app.vault.getMarkdownFiles().forEach((file: TFile) => {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (!cache) return;
+			const tags = getAllTags(cache) || [];
+			// Count each tag once per file
+			new Set(tags.map(tag => normalizeTag(tag))).forEach(tag => {
+				counts.set(tag, (counts.get(tag) || 0) + 1);
+			});
+		});
+		return counts;
+	}
+
+	getItems(): string[] {
+		const items = Array.from(this.tagCounts.keys()).sort();
+
+		// Allow mapping a tag that isn't used in the vault yet
+		const typed = normalizeTag(this.inputEl.value);
+		if (typed && !this.tagCounts.has(typed)) {
+			items.unshift(typed);
+		}
+		return items;
+	}
+
+	getItemText(item: string): string {
+		return `#${item}`;
+	}
+
+	onChooseItem(item: string, evt: MouseEvent | KeyboardEvent): void {
+		this.onSelect(item);
+	}
+
+	renderSuggestion(item: FuzzyMatch<string>, el: HTMLElement): void {
+		const tag = item.item;
+		el.createEl("div", { text: `#${tag}` });
+		const count = this.tagCounts.get(tag);
+		if (count) {
+			el.createEl("small", { text: `Tag (${count} ${count === 1 ? "note" : "notes"})` });
+		} else {
+			el.createEl("small", { text: "New tag" });
+		}
+	}
+}
+
+/**
+ * Normalize a tag for use as a mapping key: no leading '#', no surrounding slashes, lowercase
+ */
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, "").replace(/^\/+|\/+$/g, "").toLowerCase();
+}
@@ -0,0 +1,194 @@
+import { FileView, TFile, WorkspaceLeaf } from "obsidian";
+import LinkIconPlugin from "../main";
+import { FolderIconMapping } from "./settings";
+
+// Marks icons added outside note content, so they can be told apart from link icons
+const WORKSPACE_ICON_CLASS = "link-icon-workspace";
+// Set on an element once decorated, to the path its icons were resolved for
+const DECORATED_ATTRIBUTE = "data-link-icon-path";
+
+// Tab header elements aren't part of the public typings
+interface LeafWithTabHeader {
+	tabHeaderEl?: HTMLElement;
+	tabHeaderInnerTitleEl?: HTMLElement;
+}
+
+/**
+ * Icons from the same rules on files outside note content: file explorer rows,
+ * tab headers and the tab list dropdown of a tab group. Each place has its own setting.
+ */
+export class WorkspaceIcons {
+	private plugin: LinkIconPlugin;
+	private explorerObserver: MutationObserver | null = null;
+	private explorerTimeout: ReturnType<typeof setTimeout> | null = null;
+
+	constructor(plugin: LinkIconPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Rebuild every workspace icon, e.g. after settings or files changed
+	 */
+	refresh(): void {
+		this.clear(document.body);
+		this.decorate();
+	}
+
+	/**
+	 * Add icons wherever they're missing, leaving existing ones alone
+	 */
+	decorate(): void {
+		const { settings } = this.plugin;
+		if (settings.showInFileExplorer) {
+			this.decorateFileExplorer();
+		}
+		if (settings.showInTabHeaders) {
+			this.decorateTabHeaders();
+		}
+		this.observeFileExplorer();
+	}
+
+	/**
+	 * Add icons to a tab group's tab list dropdown. The menu lists the group's tabs in order,
+	 * by title, so each item is matched to the next tab with that title.
+	 */
+	decorateTabList(menuEl: HTMLElement, tabsEl: HTMLElement): void {
+		if (!this.plugin.settings.showInTabList) {
+			return;
+		}
+
+		const leaves: WorkspaceLeaf[] = [];
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			if ((leaf as unknown as LeafWithTabHeader).tabHeaderEl?.closest(".workspace-tabs") === tabsEl) {
+				leaves.push(leaf);
+			}
+		});
+
+		menuEl.querySelectorAll<HTMLElement>(".menu-item").forEach((item) => {
+			const titleEl = item.querySelector<HTMLElement>(".menu-item-title");
+			const index = leaves.findIndex(leaf => leaf.getDisplayText() === titleEl?.textContent);
+			if (!titleEl || index === -1) {
+				return;
+			}
+			const [leaf] = leaves.splice(index, 1);
+			const file = getLeafFile(leaf);
+			if (file) {
+				this.insertIcons(titleEl, this.plugin.findIconsForFile(file));
+			}
+		});
+	}
+
+	/**
+	 * Remove every workspace icon and stop watching the file explorer
+	 */
+	destroy(): void {
+		if (this.explorerObserver) {
+			this.explorerObserver.disconnect();
+			this.explorerObserver = null;
+		}
+		if (this.explorerTimeout) {
+			clearTimeout(this.explorerTimeout);
+			this.explorerTimeout = null;
+		}
+		this.clear(document.body);
+	}
+
+	private decorateFileExplorer(): void {
+		const { app } = this.plugin;
+		app.workspace.getLeavesOfType("file-explorer").forEach((leaf) => {
+			leaf.view.containerEl.querySelectorAll<HTMLElement>(".nav-file-title[data-path], .nav-folder-title[data-path]").forEach((titleEl) => {
+				const path = titleEl.getAttribute("data-path") || "";
+				if (titleEl.getAttribute(DECORATED_ATTRIBUTE) === path) {
+					return;
+				}
+
+				// Files get the same icons as links to them; folders get their folder rule's icon
+				const file = app.vault.getAbstractFileByPath(path);
+				let mappings: FolderIconMapping[] = [];
+				if (file instanceof TFile) {
+					mappings = this.plugin.findIconsForFile(file);
+				} else if (file) {
+					const mapping = this.plugin.findIconForFolder(path);
+					mappings = mapping ? [mapping] : [];
+				}
+
+				titleEl.querySelectorAll(`.${WORKSPACE_ICON_CLASS}`).forEach(icon => icon.remove());
+				const contentEl = titleEl.querySelector<HTMLElement>(".nav-file-title-content, .nav-folder-title-content");
+				if (contentEl) {
+					this.insertIcons(contentEl, mappings);
+				}
+				titleEl.setAttribute(DECORATED_ATTRIBUTE, path);
+			});
+		});
+	}
+
+	private decorateTabHeaders(): void {
+		this.plugin.app.workspace.iterateAllLeaves((leaf) => {
+			const titleEl = (leaf as unknown as LeafWithTabHeader).tabHeaderInnerTitleEl;
+			const file = getLeafFile(leaf);
+			const path = file ? file.path : "";
+			if (!titleEl || titleEl.getAttribute(DECORATED_ATTRIBUTE) === path) {
+				return;
+			}
+
+			titleEl.parentElement?.querySelectorAll(`.${WORKSPACE_ICON_CLASS}`).forEach(icon => icon.remove());
+			if (file) {
+				this.insertIcons(titleEl, this.plugin.findIconsForFile(file));
+			}
+			titleEl.setAttribute(DECORATED_ATTRIBUTE, path);
+		});
+	}
+
+	/**
+	 * Insert icons just before an element holding a file or folder name
+	 */
+	private insertIcons(nameEl: HTMLElement, mappings: FolderIconMapping[]): void {
+		mappings.forEach((mapping) => {
+			const iconElement = this.plugin.createIconElement(mapping.icon, mapping.color || this.plugin.settings.iconColor, mapping);
+			iconElement.addClass(WORKSPACE_ICON_CLASS);
+			nameEl.parentElement?.insertBefore(iconElement, nameEl);
+		});
+	}
+
+	/**
+	 * Watch the file explorer for rows rendered later, e.g. when a folder is expanded
+	 */
+	private observeFileExplorer(): void {
+		if (this.explorerObserver) {
+			this.explorerObserver.disconnect();
+		}
+		if (!this.plugin.settings.showInFileExplorer) {
+			return;
+		}
+
+		this.explorerObserver = this.explorerObserver || new MutationObserver((mutations) => {
+			// Our own icons being added doesn't need another pass
+			const hasNewRows = mutations.some(mutation =>
+				Array.from(mutation.addedNodes).some(node => node instanceof HTMLElement && !node.hasClass(WORKSPACE_ICON_CLASS))
+			);
+			if (!hasNewRows) {
+				return;
+			}
+			if (this.explorerTimeout) {
+				clearTimeout(this.explorerTimeout);
+			}
+			this.explorerTimeout = setTimeout(() => {
+				this.explorerTimeout = null;
+				this.decorateFileExplorer();
+			}, 100);
+		});
+
+		this.plugin.app.workspace.getLeavesOfType("file-explorer").forEach((leaf) => {
+			this.explorerObserver?.observe(leaf.view.containerEl, { childList: true, subtree: true });
+		});
+	}
+
+	private clear(element: HTMLElement): void {
+		element.querySelectorAll(`.${WORKSPACE_ICON_CLASS}`).forEach(icon => icon.remove());
+		element.querySelectorAll(`[${DECORATED_ATTRIBUTE}]`).forEach(el => el.removeAttribute(DECORATED_ATTRIBUTE));
+	}
+}
+
+function getLeafFile(leaf: WorkspaceLeaf): TFile | null {
+	return leaf.view instanceof FileView ? leaf.view.file : null;
+}